@@ -0,0 +1,30 @@
+CREATE TABLE "comparisons" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_a_id" integer,
+	"user_b_id" integer,
+	"argument_text" text NOT NULL,
+	"explanation" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "insights" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"description" text NOT NULL,
+	"life_experiences" jsonb NOT NULL,
+	"concepts" jsonb NOT NULL,
+	"subcultures" jsonb NOT NULL,
+	"writing_style" text NOT NULL,
+	"last_updated" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"twitter_handle" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "comparisons" ADD CONSTRAINT "comparisons_user_a_id_users_id_fk" FOREIGN KEY ("user_a_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "comparisons" ADD CONSTRAINT "comparisons_user_b_id_users_id_fk" FOREIGN KEY ("user_b_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "insights" ADD CONSTRAINT "insights_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
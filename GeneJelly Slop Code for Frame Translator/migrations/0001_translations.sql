@@ -0,0 +1,11 @@
+CREATE TABLE "translations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_text" text NOT NULL,
+	"target_handle" text NOT NULL,
+	"source_frame" text NOT NULL,
+	"target_frame" text NOT NULL,
+	"translation" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
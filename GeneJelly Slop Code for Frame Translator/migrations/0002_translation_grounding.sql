@@ -0,0 +1,3 @@
+ALTER TABLE "translations" ADD COLUMN "insight_id" integer;--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN "exemplar_tweet_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "translations" ADD CONSTRAINT "translations_insight_id_insights_id_fk" FOREIGN KEY ("insight_id") REFERENCES "public"."insights"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
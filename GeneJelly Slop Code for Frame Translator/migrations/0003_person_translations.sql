@@ -0,0 +1,3 @@
+ALTER TABLE "translations" ADD COLUMN "source_handle" text;--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN "source_tweet_id" text;--> statement-breakpoint
+ALTER TABLE "translations" ADD COLUMN "glossary" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
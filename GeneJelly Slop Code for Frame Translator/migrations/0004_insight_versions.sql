@@ -0,0 +1,16 @@
+CREATE TABLE "insight_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"insight_id" integer NOT NULL,
+	"user_id" integer,
+	"version" integer NOT NULL,
+	"description" text NOT NULL,
+	"life_experiences" jsonb NOT NULL,
+	"concepts" jsonb NOT NULL,
+	"subcultures" jsonb NOT NULL,
+	"writing_style" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "insights" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "insight_versions" ADD CONSTRAINT "insight_versions_insight_id_insights_id_fk" FOREIGN KEY ("insight_id") REFERENCES "public"."insights"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "insight_versions" ADD CONSTRAINT "insight_versions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
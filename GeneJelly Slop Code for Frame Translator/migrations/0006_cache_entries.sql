@@ -0,0 +1,6 @@
+CREATE TABLE "cache_entries" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp NOT NULL
+);
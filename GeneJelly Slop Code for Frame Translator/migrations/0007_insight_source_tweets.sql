@@ -0,0 +1,2 @@
+ALTER TABLE "insight_versions" ADD COLUMN "source_tweet_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "insights" ADD COLUMN "source_tweet_ids" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "comparisons" ADD COLUMN "result" jsonb;
\ No newline at end of file
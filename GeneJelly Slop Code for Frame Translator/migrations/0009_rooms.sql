@@ -0,0 +1,8 @@
+CREATE TABLE "rooms" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"question" text NOT NULL,
+	"member_ids" jsonb NOT NULL,
+	"member_handles" jsonb NOT NULL,
+	"result" jsonb NOT NULL,
+	"created_at" timestamp NOT NULL
+);
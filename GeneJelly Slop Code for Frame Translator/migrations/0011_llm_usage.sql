@@ -0,0 +1,14 @@
+CREATE TABLE "llm_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"account_id" integer,
+	"task" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"input_tokens" integer NOT NULL,
+	"output_tokens" integer NOT NULL,
+	"cost_usd" double precision NOT NULL,
+	"estimated" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TABLE "archive_likes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"archive_id" integer NOT NULL,
+	"tweet_id" text NOT NULL,
+	"full_text" text,
+	"expanded_url" text
+);
+--> statement-breakpoint
+CREATE TABLE "archive_tweets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"archive_id" integer NOT NULL,
+	"tweet_id" text NOT NULL,
+	"full_text" text NOT NULL,
+	"favorite_count" integer NOT NULL,
+	"retweet_count" integer NOT NULL,
+	"reply_to_tweet_id" text,
+	"reply_to_user_id" text,
+	"reply_to_username" text,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "community_archives" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"account_id" text NOT NULL,
+	"username" text NOT NULL,
+	"display_name" text,
+	"bio" text,
+	"website" text,
+	"location" text,
+	"avatar_media_url" text,
+	"account_created_at" timestamp,
+	"tweet_count" integer NOT NULL,
+	"like_count" integer NOT NULL,
+	"imported_by" integer,
+	"imported_at" timestamp NOT NULL,
+	CONSTRAINT "community_archives_account_id_unique" UNIQUE("account_id")
+);
+--> statement-breakpoint
+ALTER TABLE "archive_likes" ADD CONSTRAINT "archive_likes_archive_id_community_archives_id_fk" FOREIGN KEY ("archive_id") REFERENCES "public"."community_archives"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "archive_tweets" ADD CONSTRAINT "archive_tweets_archive_id_community_archives_id_fk" FOREIGN KEY ("archive_id") REFERENCES "public"."community_archives"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "community_archives" ADD CONSTRAINT "community_archives_imported_by_accounts_id_fk" FOREIGN KEY ("imported_by") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "archive_likes_archive_id_idx" ON "archive_likes" USING btree ("archive_id");--> statement-breakpoint
+CREATE INDEX "archive_tweets_archive_id_idx" ON "archive_tweets" USING btree ("archive_id");
\ No newline at end of file
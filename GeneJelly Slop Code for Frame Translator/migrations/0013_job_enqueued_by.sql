@@ -0,0 +1,2 @@
+ALTER TABLE "jobs" ADD COLUMN "enqueued_by" integer;--> statement-breakpoint
+ALTER TABLE "jobs" ADD CONSTRAINT "jobs_enqueued_by_accounts_id_fk" FOREIGN KEY ("enqueued_by") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
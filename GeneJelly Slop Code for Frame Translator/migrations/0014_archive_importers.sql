@@ -0,0 +1,4 @@
+ALTER TABLE "community_archives" DROP CONSTRAINT "community_archives_account_id_unique";--> statement-breakpoint
+CREATE INDEX "archive_tweets_reply_to_tweet_id_idx" ON "archive_tweets" USING btree ("reply_to_tweet_id");--> statement-breakpoint
+CREATE INDEX "archive_tweets_reply_to_user_id_idx" ON "archive_tweets" USING btree ("reply_to_user_id");--> statement-breakpoint
+ALTER TABLE "community_archives" ADD CONSTRAINT "community_archives_account_importer_unique" UNIQUE NULLS NOT DISTINCT("account_id","imported_by");
\ No newline at end of file
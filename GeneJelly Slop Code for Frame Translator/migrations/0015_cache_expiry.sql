@@ -0,0 +1 @@
+CREATE INDEX "cache_entries_expires_at_idx" ON "cache_entries" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp } from "./testing";
+
+// Two archive accounts with enough tweets to build a corpus and pick exemplars from
+async function startSeededApp(options: Parameters<typeof startTestApp>[0] = {}): Promise<TestApp> {
+  const app = await startTestApp(options);
+  for (const [handle, topic] of [["alice", "poetry"], ["bob", "markets"]]) {
+    app.archive.addAccount({ username: handle });
+    for (let i = 0; i < 8; i++) {
+      app.archive.addTweet(handle, { full_text: `${handle} has been thinking about ${topic} again, part ${i}`, favorite_count: i });
+    }
+  }
+  await app.signIn();
+  return app;
+}
+
+async function trackUsers(app: TestApp, ...handles: string[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (const handle of handles) {
+    const created = await app.request("POST", "/api/users", { username: handle, twitterHandle: handle });
+    expect(created.status).toBe(200);
+    ids.push(created.body.id);
+  }
+  return ids;
+}
+
+describe("API", () => {
+  let app: TestApp;
+
+  beforeEach(async () => {
+    app = await startSeededApp();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("requires sign-in", async () => {
+    const signedOut = await startTestApp();
+    try {
+      const response = await signedOut.request("GET", "/api/comparisons");
+      expect(response.status).toBe(401);
+    } finally {
+      await signedOut.close();
+    }
+  });
+
+  describe("translate", () => {
+    it("translates into the target's frame and stores the translation", async () => {
+      const response = await app.request("POST", "/api/translate", { sourceText: "hello world", targetHandle: "alice" });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        sourceText: "hello world",
+        targetHandle: "alice",
+        translation: "translated text",
+        provider: "fake",
+        model: "fake-1"
+      });
+      expect(response.body.exemplars.length).toBeGreaterThan(0);
+
+      const listed = await app.request("GET", "/api/translations");
+      expect(listed.body.map((t: { id: number }) => t.id)).toEqual([response.body.id]);
+    });
+
+    it("responds 404 for a handle the archive doesn't have", async () => {
+      const response = await app.request("POST", "/api/translate", { sourceText: "hello", targetHandle: "nobody" });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("ARCHIVE_ACCOUNT_NOT_FOUND");
+      expect(app.llm.calls).toHaveLength(0);
+    });
+
+    it("rejects an empty source text", async () => {
+      const response = await app.request("POST", "/api/translate", { sourceText: "", targetHandle: "alice" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe("VALIDATION_FAILED");
+    });
+  });
+
+  describe("users", () => {
+    it("refuses a second user with the same username or handle", async () => {
+      await trackUsers(app, "alice");
+
+      const sameUsername = await app.request("POST", "/api/users", { username: "alice", twitterHandle: "alice_two" });
+      const sameHandle = await app.request("POST", "/api/users", { username: "alice_two", twitterHandle: "ALICE" });
+
+      expect(sameUsername.status).toBe(409);
+      expect(sameUsername.body).toMatchObject({ code: "CONFLICT", details: { username: "alice" } });
+      expect(sameHandle.status).toBe(409);
+      expect(sameHandle.body).toMatchObject({ code: "CONFLICT", details: { twitterHandle: "alice" } });
+    });
+  });
+
+  describe("insights", () => {
+    it("generates an insight once and serves it while fresh", async () => {
+      await trackUsers(app, "alice");
+
+      const first = await app.request("GET", "/api/users/alice/insights");
+      const second = await app.request("GET", "/api/users/alice/insights");
+
+      expect(first.status).toBe(200);
+      expect(first.body).toMatchObject({ version: 1, staleness: { stale: false } });
+      expect(first.body.sourceTweetIds.length).toBeGreaterThan(0);
+      expect(second.body.id).toBe(first.body.id);
+      expect(app.llm.calls).toHaveLength(1);
+    });
+
+    it("asks the model again on refresh and keeps each version", async () => {
+      await trackUsers(app, "alice");
+      await app.request("GET", "/api/users/alice/insights");
+
+      const refreshed = await app.request("POST", "/api/users/alice/insights/refresh");
+      const versions = await app.request("GET", "/api/users/alice/insights/versions");
+
+      expect(refreshed.status).toBe(200);
+      expect(refreshed.body.version).toBe(2);
+      expect(versions.body.map((v: { version: number }) => v.version).sort()).toEqual([1, 2]);
+      expect(app.llm.calls).toHaveLength(2);
+    });
+
+    it("shares one generation between concurrent requests", async () => {
+      await trackUsers(app, "alice");
+
+      const responses = await Promise.all(
+        Array.from({ length: 3 }, () => app.request("GET", "/api/users/alice/insights"))
+      );
+
+      expect(responses.map(r => r.status)).toEqual([200, 200, 200]);
+      expect(new Set(responses.map(r => r.body.id)).size).toBe(1);
+      expect(app.llm.calls).toHaveLength(1);
+    });
+
+    it("runs as a job when asked to", async () => {
+      await trackUsers(app, "alice");
+
+      const accepted = await app.request("GET", "/api/users/alice/insights?async=true");
+      expect(accepted.status).toBe(202);
+      expect(accepted.headers.get("location")).toBe(`/api/jobs/${accepted.body.job.id}`);
+
+      await app.drainJobs();
+      const job = await app.request("GET", `/api/jobs/${accepted.body.job.id}`);
+      expect(job.body).toMatchObject({ status: "succeeded", attempts: 1 });
+    });
+
+    it("responds 404 for an untracked user", async () => {
+      const response = await app.request("GET", "/api/users/carol/insights");
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("comparisons", () => {
+    it("compares two users with insights and lists the result for its owner only", async () => {
+      const [aliceId, bobId] = await trackUsers(app, "alice", "bob");
+      await app.request("GET", "/api/users/alice/insights");
+      await app.request("GET", "/api/users/bob/insights");
+
+      const created = await app.request("POST", "/api/comparisons", { userAId: aliceId, userBId: bobId });
+      expect(created.status).toBe(200);
+      expect(created.body).toMatchObject({ userAId: aliceId, userBId: bobId, argumentText: "Find meaningful connection points" });
+      expect(created.body.explanation).toContain("Shared values:");
+
+      const fetched = await app.request("GET", `/api/comparisons/${created.body.id}`);
+      expect(fetched.body.id).toBe(created.body.id);
+
+      await app.signIn("someone-else");
+      const hidden = await app.request("GET", `/api/comparisons/${created.body.id}`);
+      const listed = await app.request("GET", "/api/comparisons");
+      expect(hidden.status).toBe(404);
+      expect(listed.body).toEqual([]);
+    });
+
+    it("refuses to compare users without insights", async () => {
+      const [aliceId, bobId] = await trackUsers(app, "alice", "bob");
+
+      const response = await app.request("POST", "/api/comparisons", { userAId: aliceId, userBId: bobId });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("COMPARISON_UNAVAILABLE");
+      expect(app.llm.calls).toHaveLength(0);
+    });
+
+    it("deduplicates a comparison job while it is queued", async () => {
+      const [aliceId, bobId] = await trackUsers(app, "alice", "bob");
+      await app.request("GET", "/api/users/alice/insights");
+      await app.request("GET", "/api/users/bob/insights");
+
+      const payload = { userAId: aliceId, userBId: bobId, argument: "taxes" };
+      const first = await app.request("POST", "/api/comparisons?async=true", payload);
+      const second = await app.request("POST", "/api/comparisons?async=true", payload);
+      expect(second.body).toMatchObject({ deduplicated: true, job: { id: first.body.job.id } });
+
+      await app.drainJobs();
+      const result = await app.request("GET", `/api/jobs/${first.body.job.id}/result`);
+      expect(result.status).toBe(200);
+      expect(result.body).toMatchObject({ userAId: aliceId, userBId: bobId, argumentText: "taxes" });
+    });
+  });
+
+  it("keeps apps running side by side apart", async () => {
+    const other = await startSeededApp();
+    try {
+      await trackUsers(app, "alice");
+      await trackUsers(other, "alice");
+      await Promise.all([app.request("GET", "/api/users/alice/insights"), other.request("GET", "/api/users/alice/insights")]);
+
+      expect(app.llm.calls).toHaveLength(1);
+      expect(other.llm.calls).toHaveLength(1);
+      expect(await other.storage.getUserByTwitterHandle("bob")).toBeUndefined();
+    } finally {
+      await other.close();
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import express, { type Express } from "express";
+import type { Server } from "http";
+import { requestContext } from "./context";
+import { errorHandler } from "./errors";
+import { recordRequestMetrics } from "./metrics";
+import { registerRoutes } from "./routes";
+import { createServices, type ServiceOptions, type Services } from "./services";
+import { configureLogging, requestLogger } from "./utils";
+
+export type AppOptions = ServiceOptions;
+
+/**
+ * Builds the API: creates its services, then mounts middleware, routes and the error handler.
+ * Serving the client, listening and starting the job worker (services.jobs.worker) are left to the caller.
+ */
+export async function createApp(options: AppOptions): Promise<{ app: Express; server: Server; services: Services }> {
+  // Logging is process-wide, unlike the services
+  configureLogging(options.config.logging);
+  const services = createServices(options);
+
+  const app = express();
+  app.set("env", options.config.env);
+  // Before body parsing, so requests with malformed bodies are still tagged, logged and timed
+  app.use(requestContext());
+  app.use(requestLogger());
+  app.use(recordRequestMetrics());
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+
+  const server = await registerRoutes(app, services);
+  app.use(errorHandler);
+
+  return { app, server, services };
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { importTwitterArchive } from "./services/archive-import";
+import { buildExportZip, startTestApp, type TestApp } from "./testing";
+
+// An export for @carol, who the hosted (fake) archive doesn't have
+function carolsExport(text: string = "carol keeps coming back to the same frames") {
+  return buildExportZip({
+    "data/account.js": [{ account: { accountId: "42", username: "carol" } }],
+    "data/tweets.js": Array.from({ length: 5 }, (_, i) => ({
+      tweet: { id_str: String(100 + i), full_text: `${text}, part ${i}`, created_at: `2024-01-0${i + 1}T12:00:00.000Z`, favorite_count: String(i), retweet_count: "0" }
+    }))
+  });
+}
+
+async function upload(app: TestApp, zip: Buffer) {
+  return app.request("POST", "/api/archives", zip, { "Content-Type": "application/zip" });
+}
+
+describe("imported archives", () => {
+  let app: TestApp;
+
+  beforeEach(async () => {
+    app = await startTestApp({ config: { archive: { apiUrl: "http://archive.invalid", apiKey: "test", importMaxMb: 1 } } });
+    await app.signIn("importer");
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("serves an import to the account that made it", async () => {
+    const created = await upload(app, await carolsExport());
+    expect(created.status).toBe(201);
+    expect(created.headers.get("location")).toBe(`/api/archives/${created.body.id}`);
+    expect(created.body).toMatchObject({ accountId: "42", username: "carol", tweetCount: 5 });
+
+    const listed = await app.request("GET", "/api/archives");
+    expect(listed.body.map((archive: { id: number }) => archive.id)).toEqual([created.body.id]);
+
+    const translated = await app.request("POST", "/api/translate", { sourceText: "hello", targetHandle: "carol" });
+    expect(translated.status).toBe(200);
+    expect(translated.body.exemplars[0].text).toContain("carol keeps coming back");
+  });
+
+  it("keeps an import from other accounts", async () => {
+    const created = await upload(app, await carolsExport());
+
+    await app.signIn("someone-else");
+    expect((await app.request("GET", "/api/archives")).body).toEqual([]);
+    expect((await app.request("GET", `/api/archives/${created.body.id}`)).status).toBe(404);
+    expect((await app.request("GET", `/api/archives/${created.body.id}/likes`)).status).toBe(404);
+    expect((await app.request("DELETE", `/api/archives/${created.body.id}`)).status).toBe(404);
+
+    const translated = await app.request("POST", "/api/translate", { sourceText: "hello", targetHandle: "carol" });
+    expect(translated.status).toBe(404);
+    expect(translated.body.code).toBe("ARCHIVE_ACCOUNT_NOT_FOUND");
+  });
+
+  it("lets each account import the same account, replacing only its own copy", async () => {
+    const first = await upload(app, await carolsExport("the importer's copy of carol's export"));
+    await app.signIn("someone-else");
+    const other = await upload(app, await carolsExport("someone else's copy of carol's export"));
+    expect(other.status).toBe(201);
+
+    const replaced = await upload(app, await carolsExport("someone else's second copy of carol's export"));
+    expect((await app.request("GET", "/api/archives")).body.map((archive: { id: number }) => archive.id)).toEqual([replaced.body.id]);
+
+    await app.signIn("importer");
+    expect((await app.request("GET", `/api/archives/${first.body.id}`)).status).toBe(200);
+    const translated = await app.request("POST", "/api/translate", { sourceText: "hello", targetHandle: "carol" });
+    expect(translated.body.exemplars[0].text).toContain("the importer's copy");
+  });
+
+  it("leaves private imports out of insights, which every account sees", async () => {
+    await upload(app, await carolsExport());
+    await app.request("POST", "/api/users", { username: "carol", twitterHandle: "carol" });
+
+    const insight = await app.request("GET", "/api/users/carol/insights");
+
+    expect(insight.status).toBe(404);
+    expect(insight.body.code).toBe("ARCHIVE_ACCOUNT_NOT_FOUND");
+    expect(app.llm.calls).toHaveLength(0);
+  });
+
+  it("serves command-line imports to everyone and only deletes them from the command line", async () => {
+    const saved = await importTwitterArchive(app.storage, await carolsExport());
+
+    await app.signIn("someone-else");
+    expect((await app.request("GET", `/api/archives/${saved.id}`)).status).toBe(200);
+    expect((await app.request("POST", "/api/translate", { sourceText: "hello", targetHandle: "carol" })).status).toBe(200);
+
+    const deleted = await app.request("DELETE", `/api/archives/${saved.id}`);
+    expect(deleted.status).toBe(403);
+  });
+
+  it("deletes an import for the account that made it", async () => {
+    const created = await upload(app, await carolsExport());
+
+    expect((await app.request("DELETE", `/api/archives/${created.body.id}`)).status).toBe(204);
+
+    expect((await app.request("GET", "/api/archives")).body).toEqual([]);
+    expect((await app.request("POST", "/api/translate", { sourceText: "hello", targetHandle: "carol" })).status).toBe(404);
+  });
+
+  it("refuses an upload over the size limit", async () => {
+    const response = await upload(app, Buffer.alloc(2 * 1024 * 1024));
+
+    expect(response.status).toBe(413);
+    expect(response.body.code).toBe("PAYLOAD_TOO_LARGE");
+    expect(await app.storage.listCommunityArchives(null)).toEqual([]);
+  });
+
+  it("refuses an upload that isn't a zip", async () => {
+    const wrongType = await app.request("POST", "/api/archives", Buffer.from("{}"), { "Content-Type": "text/plain" });
+    const notAZip = await upload(app, Buffer.from("definitely not a zip"));
+
+    expect(wrongType.status).toBe(400);
+    expect(wrongType.body.code).toBe("VALIDATION_FAILED");
+    expect(notAZip.status).toBe(400);
+    expect(notAZip.body.code).toBe("INVALID_ARCHIVE");
+  });
+});
@@ -0,0 +1,266 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { Passport } from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Account, ApiToken } from "@shared/schema";
+import { credentialsSchema, idParamsSchema, tokenRequestSchema } from "@shared/api";
+import type { Config } from "./config";
+import { ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, validate } from "./errors";
+import type { IStorage } from "./storage";
+import { log } from "./utils";
+
+declare global {
+  namespace Express {
+    // The signed-in account; never carries the password hash
+    interface User extends Omit<Account, "passwordHash"> {}
+
+    interface Request {
+      // Set when the request signed in with an API token rather than a session
+      apiTokenId?: number;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Hashes a password as "salt:hash" with scrypt
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toSessionAccount({ passwordHash, ...account }: Account): Express.User {
+  return account;
+}
+
+function toTokenInfo({ tokenHash, ...token }: ApiToken) {
+  return token;
+}
+
+/**
+ * Whether the signed-in account may see a record. Records without an owner were created
+ * before sign-in existed and stay visible to everyone.
+ */
+export function isOwnedBy(record: { ownerId: number | null }, account: Express.User | undefined): boolean {
+  return record.ownerId === null || record.ownerId === account?.id;
+}
+
+/**
+ * Responds 401 unless the request is signed in (by session or API token)
+ */
+export const requireAuth: RequestHandler = (req, _res, next) => {
+  next(req.user ? undefined : new UnauthorizedError("Sign in or send an API token to use this endpoint"));
+};
+
+/**
+ * Signs in requests that carry `Authorization: Bearer <token>`. Invalid tokens get a 401
+ * rather than falling through to the session, so scripts notice a revoked token.
+ */
+function authenticateApiToken(storage: IStorage): RequestHandler {
+  return async (req, _res, next) => {
+    const header = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) {
+      return next();
+    }
+
+    try {
+      const token = await storage.getApiTokenByHash(hashApiToken(header.slice("Bearer ".length).trim()));
+      const account = token && await storage.getAccount(token.accountId);
+      if (!token || !account) {
+        return next(new UnauthorizedError("Invalid or revoked API token"));
+      }
+
+      req.user = toSessionAccount(account);
+      req.apiTokenId = token.id;
+      // Not awaited: a missed last-used timestamp isn't worth failing the request over
+      storage.updateApiToken(token.id, { lastUsedAt: new Date() }).catch(error =>
+        log(`Could not record API token use: ${error}`, "auth", "warn")
+      );
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+function createSessionStore(databaseUrl?: string): session.Store {
+  if (databaseUrl) {
+    const PgStore = connectPg(session);
+    return new PgStore({ conString: databaseUrl, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  // Prune expired sessions daily
+  return new MemoryStore({ checkPeriod: 86_400_000 });
+}
+
+// The config schema requires a secret in production
+function sessionSecret(secret?: string): string {
+  if (secret) {
+    return secret;
+  }
+  log("SESSION_SECRET not set, using a random secret (sessions end on restart)", "auth");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Sets up sessions, passport and the sign-in and API token routes
+ */
+export function setupAuth(app: Express, config: Config, storage: IStorage) {
+  const production = config.env === "production";
+  if (production) {
+    // Secure cookies behind the deployment's proxy
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    store: createSessionStore(config.database.url),
+    secret: sessionSecret(config.auth.sessionSecret),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: production,
+      maxAge: 30 * 86_400_000
+    }
+  }));
+  // An instance per app, so apps in one process don't share strategies
+  const passport = new Passport();
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(authenticateApiToken(storage));
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const account = await storage.getAccountByUsername(username);
+      if (!account || !(await verifyPassword(password, account.passwordHash))) {
+        return done(null, false);
+      }
+      return done(null, toSessionAccount(account));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const account = await storage.getAccount(id);
+      done(null, account ? toSessionAccount(account) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      if (!config.auth.allowRegistration) {
+        throw new ForbiddenError("Registration is disabled on this deployment");
+      }
+
+      const { username, password } = validate(credentialsSchema, req.body, "body");
+      if (await storage.getAccountByUsername(username)) {
+        throw new ConflictError("Username is already taken", { username });
+      }
+
+      const account = await storage.createAccount({
+        username,
+        passwordHash: await hashPassword(password),
+        createdAt: new Date()
+      });
+      const user = toSessionAccount(account);
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return next(new UnauthorizedError("Invalid username or password"));
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+
+  // API tokens for scripts. The token itself is only returned once, when it is created.
+  app.post("/api/tokens", requireAuth, async (req, res, next) => {
+    try {
+      const { name } = validate(tokenRequestSchema, req.body, "body");
+      const token = `vt_${randomBytes(24).toString("base64url")}`;
+      const created = await storage.createApiToken({
+        accountId: req.user!.id,
+        name,
+        tokenHash: hashApiToken(token),
+        createdAt: new Date()
+      });
+      res.status(201).json({ ...toTokenInfo(created), token });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/tokens", requireAuth, async (req, res, next) => {
+    try {
+      const tokens = await storage.getApiTokens(req.user!.id);
+      res.json(tokens.map(toTokenInfo));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/tokens/:id", requireAuth, async (req, res, next) => {
+    try {
+      const { id } = validate(idParamsSchema, req.params, "params");
+      const token = (await storage.getApiTokens(req.user!.id)).find(t => t.id === id);
+      if (!token) {
+        throw new NotFoundError("API token not found");
+      }
+
+      if (!token.revokedAt) {
+        await storage.updateApiToken(token.id, { revokedAt: new Date() });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,311 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { llmTasks, providerNames } from "./services/llm/types";
+
+/**
+ * Every setting the server reads, in one typed object. Values are layered, later ones winning:
+ * the defaults below, config/default.json, config/<NODE_ENV>.json, then environment variables.
+ * Config files use the nested shape of configSchema; environment variables are mapped in envBindings.
+ */
+
+const int = (fallback: number) => z.coerce.number().int().nonnegative().default(fallback);
+const num = (fallback: number) => z.coerce.number().nonnegative().default(fallback);
+
+// Environment variables are strings; config files may use real booleans
+const flag = (fallback: boolean) => z.preprocess(
+  value => value === "true" || value === "1" ? true : value === "false" || value === "0" ? false : value,
+  z.boolean({ invalid_type_error: "Expected true or false" })
+).default(fallback);
+
+const providerName = z.string().trim().toLowerCase().pipe(z.enum(providerNames));
+
+export const upstreamNames = ["archive", "gemini", "anthropic", "openai"] as const;
+
+// Each upstream falls back to the archive or LLM defaults in services/upstream for anything unset
+const upstreamSchema = z.object({
+  timeoutMs: z.coerce.number().int().positive(),
+  maxRetries: z.coerce.number().int().nonnegative(),
+  baseDelayMs: z.coerce.number().int().nonnegative(),
+  maxDelayMs: z.coerce.number().int().nonnegative(),
+  failureThreshold: z.coerce.number().int().positive(),
+  cooldownMs: z.coerce.number().int().nonnegative()
+}).partial().strict().default({});
+
+const taskSchema = z.object({
+  provider: providerName.optional(),
+  model: z.string().optional(),
+  temperature: z.coerce.number().min(0).max(2).optional(),
+  maxTokens: z.coerce.number().int().positive().optional()
+}).strict().default({});
+
+const pricingSchema = z.object({
+  // USD per million tokens
+  input: z.coerce.number().nonnegative().optional(),
+  output: z.coerce.number().nonnegative().optional()
+}).strict().default({});
+
+export const configSchema = z.object({
+  env: z.enum(["development", "production", "test"]).default("development"),
+  server: z.object({
+    port: z.coerce.number().int().min(1).max(65535).default(5000),
+    host: z.string().min(1).default("0.0.0.0")
+  }).strict().default({}),
+  database: z.object({
+    // In-memory storage when unset
+    url: z.string().url().optional()
+  }).strict().default({}),
+  archive: z.object({
+    // hosted: the Community Archive API only; local: imported Twitter/X exports only; both: local first
+    source: z.enum(["hosted", "local", "both"]).default("both"),
+    apiUrl: z.string().url().optional(),
+    apiKey: z.string().min(1).optional(),
+    // Largest export zip accepted by the import endpoint
+    importMaxMb: z.coerce.number().int().positive().default(200)
+  }).strict().default({}),
+  llm: z.object({
+    provider: providerName.default("gemini"),
+    model: z.string().optional(),
+    maxRepairs: int(2),
+    tasks: z.object(Object.fromEntries(llmTasks.map(task => [task, taskSchema])) as Record<typeof llmTasks[number], typeof taskSchema>).strict().default({}),
+    gemini: z.object({ apiKey: z.string().optional() }).strict().default({}),
+    anthropic: z.object({ apiKey: z.string().optional() }).strict().default({}),
+    openai: z.object({ apiKey: z.string().optional(), baseUrl: z.string().url().optional() }).strict().default({})
+  }).strict().default({}),
+  upstream: z.object(Object.fromEntries(upstreamNames.map(name => [name, upstreamSchema])) as Record<typeof upstreamNames[number], typeof upstreamSchema>).strict().default({}),
+  cache: z.object({
+    backend: z.enum(["memory", "storage"]).default("memory"),
+    maxEntries: int(1000),
+    archiveTtlSeconds: int(600),
+    llmTtlSeconds: int(7 * 24 * 3600)
+  }).strict().default({}),
+  insights: z.object({
+    maxAgeHours: num(24 * 7),
+    newTweetThreshold: int(20)
+  }).strict().default({}),
+  corpus: z.object({
+    tokenBudget: int(6000),
+    poolSize: int(400),
+    buckets: z.coerce.number().int().positive().default(6),
+    recencyHalfLifeDays: num(365),
+    replyContext: flag(true)
+  }).strict().default({}),
+  graph: z.object({
+    maxTweets: int(1000),
+    maxIncoming: int(500)
+  }).strict().default({}),
+  jobs: z.object({
+    pollIntervalMs: z.coerce.number().int().positive().default(1000),
+    maxAttempts: z.coerce.number().int().positive().default(3),
+    retryBaseMs: int(2000),
+    staleAfterMs: int(15 * 60_000)
+  }).strict().default({}),
+  auth: z.object({
+    sessionSecret: z.string().min(16).optional(),
+    allowRegistration: flag(true)
+  }).strict().default({}),
+  rateLimits: z.object({
+    ipPerMinute: int(120),
+    llmPerMinute: int(20),
+    llmPerTokenPerMinute: int(10)
+  }).strict().default({}),
+  usage: z.object({
+    dailyTokens: int(500_000),
+    dailyCostUsd: num(2),
+    pricing: z.object(Object.fromEntries(providerNames.map(name => [name, pricingSchema])) as Record<typeof providerNames[number], typeof pricingSchema>).strict().default({})
+  }).strict().default({}),
+  logging: z.object({
+    level: z.string().trim().toLowerCase().pipe(z.enum(["debug", "info", "warn", "error"])).default("info")
+  }).strict().default({}),
+  metrics: z.object({
+    // Required as a bearer token on /metrics when set
+    token: z.string().optional()
+  }).strict().default({})
+}).strict().superRefine((config, ctx) => {
+  if (config.env === "production" && !config.auth.sessionSecret) {
+    ctx.addIssue({ code: "custom", path: ["auth", "sessionSecret"], message: "Required in production" });
+  }
+
+  if (config.archive.source !== "local") {
+    for (const key of ["apiUrl", "apiKey"] as const) {
+      if (!config.archive[key]) {
+        ctx.addIssue({ code: "custom", path: ["archive", key], message: "Required unless the archive source is local" });
+      }
+    }
+  }
+
+  // Hosted providers fail on every call without a key, so catch it before serving
+  const inUse = new Set([config.llm.provider, ...llmTasks.map(task => config.llm.tasks[task].provider ?? config.llm.provider)]);
+  for (const provider of ["gemini", "anthropic"] as const) {
+    if (inUse.has(provider) && !config.llm[provider].apiKey) {
+      ctx.addIssue({ code: "custom", path: ["llm", provider, "apiKey"], message: `Required while ${provider} is an LLM provider` });
+    }
+  }
+});
+
+export type Config = z.output<typeof configSchema>;
+export type ConfigInput = z.input<typeof configSchema>;
+
+/**
+ * Defaults for the sections that have them, for code that runs before the config is loaded
+ */
+export function configDefaults<K extends keyof Config>(section: K): Config[K] {
+  return configSchema.innerType().shape[section].parse(undefined) as Config[K];
+}
+
+const upstreamKeys = {
+  TIMEOUT_MS: "timeoutMs",
+  MAX_RETRIES: "maxRetries",
+  BASE_DELAY_MS: "baseDelayMs",
+  MAX_DELAY_MS: "maxDelayMs",
+  FAILURE_THRESHOLD: "failureThreshold",
+  COOLDOWN_MS: "cooldownMs"
+};
+
+/**
+ * Environment variable for each setting, as a dotted path into Config
+ */
+export const envBindings: Record<string, string> = {
+  NODE_ENV: "env",
+  PORT: "server.port",
+  HOST: "server.host",
+  DATABASE_URL: "database.url",
+  ARCHIVE_SOURCE: "archive.source",
+  COMMUNITY_ARCHIVE_API_URL: "archive.apiUrl",
+  SUPABASE_KEY: "archive.apiKey",
+  ARCHIVE_IMPORT_MAX_MB: "archive.importMaxMb",
+  LLM_PROVIDER: "llm.provider",
+  LLM_MODEL: "llm.model",
+  LLM_MAX_REPAIRS: "llm.maxRepairs",
+  ...Object.fromEntries(llmTasks.flatMap(task => Object.entries({
+    PROVIDER: "provider",
+    MODEL: "model",
+    TEMPERATURE: "temperature",
+    MAX_TOKENS: "maxTokens"
+  }).map(([suffix, key]) => [`LLM_${task.toUpperCase()}_${suffix}`, `llm.tasks.${task}.${key}`]))),
+  GEMINI_API_KEY: "llm.gemini.apiKey",
+  ANTHROPIC_API_KEY: "llm.anthropic.apiKey",
+  OPENAI_API_KEY: "llm.openai.apiKey",
+  OPENAI_BASE_URL: "llm.openai.baseUrl",
+  ...Object.fromEntries(upstreamNames.flatMap(name => Object.entries(upstreamKeys).map(([suffix, key]) =>
+    [`UPSTREAM_${name.toUpperCase()}_${suffix}`, `upstream.${name}.${key}`]
+  ))),
+  CACHE_BACKEND: "cache.backend",
+  CACHE_MAX_ENTRIES: "cache.maxEntries",
+  ARCHIVE_CACHE_TTL_SECONDS: "cache.archiveTtlSeconds",
+  LLM_CACHE_TTL_SECONDS: "cache.llmTtlSeconds",
+  INSIGHT_MAX_AGE_HOURS: "insights.maxAgeHours",
+  INSIGHT_NEW_TWEET_THRESHOLD: "insights.newTweetThreshold",
+  INSIGHT_TOKEN_BUDGET: "corpus.tokenBudget",
+  INSIGHT_CORPUS_POOL: "corpus.poolSize",
+  INSIGHT_CORPUS_BUCKETS: "corpus.buckets",
+  INSIGHT_RECENCY_HALF_LIFE_DAYS: "corpus.recencyHalfLifeDays",
+  INSIGHT_REPLY_CONTEXT: "corpus.replyContext",
+  GRAPH_MAX_TWEETS: "graph.maxTweets",
+  GRAPH_MAX_INCOMING: "graph.maxIncoming",
+  JOB_POLL_INTERVAL_MS: "jobs.pollIntervalMs",
+  JOB_MAX_ATTEMPTS: "jobs.maxAttempts",
+  JOB_RETRY_BASE_MS: "jobs.retryBaseMs",
+  JOB_STALE_AFTER_MS: "jobs.staleAfterMs",
+  SESSION_SECRET: "auth.sessionSecret",
+  AUTH_ALLOW_REGISTRATION: "auth.allowRegistration",
+  RATE_LIMIT_IP_PER_MINUTE: "rateLimits.ipPerMinute",
+  RATE_LIMIT_LLM_PER_MINUTE: "rateLimits.llmPerMinute",
+  RATE_LIMIT_LLM_PER_TOKEN_PER_MINUTE: "rateLimits.llmPerTokenPerMinute",
+  QUOTA_DAILY_TOKENS: "usage.dailyTokens",
+  QUOTA_DAILY_COST_USD: "usage.dailyCostUsd",
+  ...Object.fromEntries(providerNames.flatMap(name => [
+    [`LLM_${name.toUpperCase()}_INPUT_COST_PER_MTOK`, `usage.pricing.${name}.input`],
+    [`LLM_${name.toUpperCase()}_OUTPUT_COST_PER_MTOK`, `usage.pricing.${name}.output`]
+  ])),
+  LOG_LEVEL: "logging.level",
+  METRICS_TOKEN: "metrics.token"
+};
+
+/**
+ * Thrown when configuration can't be read or fails the schema. The message lists every problem.
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type Tree = Record<string, unknown>;
+
+function isTree(value: unknown): value is Tree {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function merge(base: Tree, overrides: Tree): Tree {
+  const merged: Tree = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = isTree(value) && isTree(merged[key]) ? merge(merged[key] as Tree, value) : value;
+  }
+  return merged;
+}
+
+function setPath(tree: Tree, dotted: string, value: unknown) {
+  const keys = dotted.split(".");
+  let node = tree;
+  for (const key of keys.slice(0, -1)) {
+    if (!isTree(node[key])) node[key] = {};
+    node = node[key] as Tree;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+// Empty variables count as unset, as with `FOO=` lines left in a .env file
+function fromEnv(env: NodeJS.ProcessEnv): Tree {
+  const tree: Tree = {};
+  for (const [variable, dotted] of Object.entries(envBindings)) {
+    const value = env[variable]?.trim();
+    if (value) setPath(tree, dotted, value);
+  }
+  return tree;
+}
+
+function readConfigFile(file: string, problems: string[]): Tree {
+  if (!fs.existsSync(file)) return {};
+  try {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (isTree(parsed)) return parsed;
+    problems.push(`${file}: expected a JSON object`);
+  } catch (error) {
+    problems.push(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  return {};
+}
+
+export interface LoadConfigOptions {
+  env?: NodeJS.ProcessEnv;
+  // Where default.json and <NODE_ENV>.json are looked for; CONFIG_DIR, else ./config
+  configDir?: string;
+}
+
+/**
+ * Reads and validates the configuration. Call once at startup and pass the result on.
+ * @throws ConfigError listing every invalid or missing setting, with its environment variable
+ */
+export function loadConfig({ env = process.env, configDir }: LoadConfigOptions = {}): Config {
+  const dir = configDir ?? env.CONFIG_DIR ?? path.resolve("config");
+  const problems: string[] = [];
+  const fileConfig = ["default", env.NODE_ENV || "development"]
+    .map(name => readConfigFile(path.join(dir, `${name}.json`), problems))
+    .reduce(merge, {});
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  const result = configSchema.safeParse(merge(fileConfig, fromEnv(env)));
+  if (!result.success) {
+    const variables = new Map(Object.entries(envBindings).map(([variable, dotted]) => [dotted, variable]));
+    throw new ConfigError(result.error.issues.map(issue => {
+      const dotted = issue.path.join(".");
+      const variable = variables.get(dotted);
+      return `${dotted || "(root)"}${variable ? ` (${variable})` : ""}: ${issue.message}`;
+    }));
+  }
+  return result.data;
+}
@@ -0,0 +1,60 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * Per-request state that deep service code needs without threading it through every call
+ */
+export interface RequestContext {
+  // Tags log lines and is passed to upstream services as X-Request-Id
+  requestId: string;
+  // Skip cache reads for this request (results are still written back)
+  bypassCache: boolean;
+  // Signed-in account that LLM usage is charged to
+  accountId?: number | null;
+  // Set while building results every account sees, which must not draw on the account's private imports
+  shared?: boolean;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Express middleware that opens a context for each request.
+ * Send `X-Cache-Bypass: 1` or `Cache-Control: no-cache` to bypass caches. An incoming
+ * X-Request-Id is kept (so IDs from a proxy carry through), otherwise one is generated;
+ * either way it is echoed back on the response.
+ */
+export function requestContext() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const bypassHeader = req.get("x-cache-bypass");
+    const bypassCache = (bypassHeader !== undefined && bypassHeader !== "0" && bypassHeader !== "false")
+      || /\bno-cache\b/i.test(req.get("cache-control") ?? "");
+    const incomingId = req.get("x-request-id");
+    const requestId = incomingId && /^[\w.:-]{1,128}$/.test(incomingId) ? incomingId : randomUUID();
+
+    res.set("X-Request-Id", requestId);
+    storage.run({ requestId, bypassCache }, next);
+  };
+}
+
+/**
+ * Express middleware that records the signed-in account on the request's context, so usage
+ * deep in the LLM layer is charged to it. Mount after authentication.
+ */
+export function contextAccount() {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const context = storage.getStore();
+    if (context && req.user) {
+      context.accountId = req.user.id;
+    }
+    next();
+  };
+}
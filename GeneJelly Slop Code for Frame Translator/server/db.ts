@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// The Neon driver talks to Postgres over WebSockets; Node doesn't ship a global WebSocket
+neonConfig.webSocketConstructor = ws;
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+// Any Drizzle Postgres database with the app's schema: Neon in production, pglite in tests
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
@@ -0,0 +1,152 @@
+import type { ErrorRequestHandler } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { ErrorResponse } from "@shared/api";
+import { httpErrors, routeLabel } from "./metrics";
+import { log } from "./utils";
+
+/**
+ * Base for errors that map to an HTTP response. Every error response has the shape
+ * `{ code, message, details? }`; see errorResponseSchema in shared/api.
+ */
+export class AppError extends Error {
+  // Sent as Retry-After when set
+  retryAfterSeconds?: number;
+
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+    readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  toJSON(): ErrorResponse {
+    return this.details ? { code: this.code, message: this.message, details: this.details } : { code: this.code, message: this.message };
+  }
+}
+
+/**
+ * The request's body, query string or path parameters failed their schema
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(400, "VALIDATION_FAILED", message, details);
+  }
+
+  static fromZod(error: z.ZodError, location: string): ValidationError {
+    return new ValidationError(fromZodError(error, { prefix: `Invalid request ${location}` }).message, {
+      location,
+      issues: error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }))
+    });
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>, code: string = "NOT_FOUND") {
+    super(404, code, message, details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string) {
+    super(401, "UNAUTHORIZED", message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(403, "FORBIDDEN", message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(409, "CONFLICT", message, details);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(413, "PAYLOAD_TOO_LARGE", message, details);
+  }
+}
+
+/**
+ * A service we depend on (the archive or an LLM provider) failed or gave unusable output
+ */
+export class UpstreamFailure extends AppError {
+  constructor(status: 502 | 503, code: string, readonly service: string, message: string, details?: Record<string, unknown>) {
+    super(status, code, message, { service, ...details });
+  }
+}
+
+/**
+ * The client has used up a rate limit or quota; retry after the given time
+ */
+export class QuotaError extends AppError {
+  constructor(code: string, message: string, retryAfterSeconds: number, details?: Record<string, unknown>) {
+    super(429, code, message, { ...details, retryAfterSeconds });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Parses request input with its schema
+ * @throws ValidationError describing every issue
+ */
+export function validate<T extends z.ZodTypeAny>(schema: T, input: unknown, location: "body" | "query" | "params"): z.output<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    throw ValidationError.fromZod(result.error, location);
+  }
+  return result.data;
+}
+
+/**
+ * Turns anything thrown into an AppError. Errors from body parsing and other middleware
+ * keep their 4xx status; anything else is an internal error.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof z.ZodError) {
+    return ValidationError.fromZod(error, "input");
+  }
+
+  const message = error instanceof Error ? error.message : "An unexpected error occurred";
+  const { status, statusCode } = (error ?? {}) as { status?: unknown; statusCode?: unknown };
+  const clientStatus = [status, statusCode].find((s): s is number => typeof s === "number" && s >= 400 && s < 500);
+  if (clientStatus !== undefined) {
+    return new AppError(clientStatus, clientStatus === 400 ? "BAD_REQUEST" : "REQUEST_FAILED", message);
+  }
+  return new AppError(500, "INTERNAL_ERROR", message);
+}
+
+/**
+ * Express error handler that responds with the error's status and stable shape.
+ * Server errors are logged; nothing is re-thrown.
+ */
+export const errorHandler: ErrorRequestHandler = (err, req, res, _next) => {
+  const error = toAppError(err);
+  httpErrors.inc({ route: routeLabel(req), status: error.status, code: error.code });
+  if (error.status >= 500) {
+    // Unexpected errors get their stack; known failures (upstream outages) just the message
+    const detail = error === err ? error.message : err instanceof Error ? err.stack ?? err.message : String(err);
+    log(`${req.method} ${req.path} failed: ${detail}`, "express", "error");
+  }
+
+  // A streamed response has already started; all that's left is to stop it
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+
+  if (error.retryAfterSeconds !== undefined) {
+    res.set("Retry-After", String(error.retryAfterSeconds));
+  }
+  res.status(error.status).json(error.toJSON());
+};
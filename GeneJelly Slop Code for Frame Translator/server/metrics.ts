@@ -0,0 +1,128 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  render(): string;
+}
+
+const registry: Metric[] = [];
+
+function escapeLabel(value: string | number): string {
+  return String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(name => `${name}="${escapeLabel(labels[name])}"`).join(",");
+}
+
+function withLabels(name: string, key: string, extra?: string): string {
+  const all = [key, extra].filter(Boolean).join(",");
+  return all ? `${name}{${all}}` : name;
+}
+
+/**
+ * A monotonically increasing total, per label set
+ */
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, private help: string) {
+    registry.push(this);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    this.values.forEach((value, key) => lines.push(`${withLabels(this.name, key)} ${value}`));
+    return lines.join("\n");
+  }
+}
+
+/**
+ * Observations counted into cumulative buckets, per label set
+ */
+export class Histogram implements Metric {
+  private series = new Map<string, { counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, private help: string, private buckets: number[]) {
+    registry.push(this);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach((series, key) => {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${withLabels(`${this.name}_bucket`, key, `le="${bound}"`)} ${series.counts[i]}`);
+      });
+      lines.push(`${withLabels(`${this.name}_bucket`, key, `le="+Inf"`)} ${series.count}`);
+      lines.push(`${withLabels(`${this.name}_sum`, key)} ${series.sum}`);
+      lines.push(`${withLabels(`${this.name}_count`, key)} ${series.count}`);
+    });
+    return lines.join("\n");
+  }
+}
+
+// Seconds; LLM calls and streams can run well past the usual web latencies
+const LATENCY_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+export const httpRequestDuration = new Histogram(
+  "http_request_duration_seconds",
+  "Time to finish API responses, by route and status",
+  LATENCY_BUCKETS
+);
+export const httpErrors = new Counter("http_errors_total", "Error responses, by route, status and error code");
+export const upstreamRequestDuration = new Histogram(
+  "upstream_request_duration_seconds",
+  "Time until an upstream service responded (or failed), per attempt",
+  LATENCY_BUCKETS
+);
+export const llmTokens = new Counter("llm_tokens_total", "LLM tokens used, by task, provider, model and direction");
+export const llmCost = new Counter("llm_cost_usd_total", "Estimated LLM spend in USD, by task, provider and model");
+
+/**
+ * The route pattern a request matched, so IDs and handles don't each get their own series
+ */
+export function routeLabel(req: Request): string {
+  return req.route?.path ? `${req.baseUrl}${req.route.path}` : "unmatched";
+}
+
+/**
+ * Express middleware that times every API response
+ */
+export function recordRequestMetrics(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = process.hrtime.bigint();
+    res.on("finish", () => {
+      if (!req.originalUrl.startsWith("/api")) return;
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      httpRequestDuration.observe({ method: req.method, route: routeLabel(req), status: res.statusCode }, seconds);
+    });
+    next();
+  };
+}
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return registry.map(metric => metric.render()).join("\n\n") + "\n";
+}
@@ -0,0 +1,131 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { QuotaError } from "./errors";
+import type { UsageService } from "./services/usage";
+
+export interface RateLimitOptions {
+  name: string;
+  // Requests allowed per window; 0 for no limit
+  max: number;
+  windowMs: number;
+  // Who the request counts against, or null to let it through uncounted
+  key: (req: Request) => string | null;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed-window request counter kept in memory, so limits apply per server process
+ */
+class RateLimiter {
+  private windows = new Map<string, Window>();
+  private lastPrune = Date.now();
+
+  constructor(private max: number, private windowMs: number) {}
+
+  hit(key: string, now: number = Date.now()): Window {
+    this.prune(now);
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return window;
+  }
+
+  // Drops expired windows now and then so one-off clients don't accumulate
+  private prune(now: number) {
+    if (now - this.lastPrune < this.windowMs) return;
+    this.lastPrune = now;
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+/**
+ * Express middleware that fails with a 429 QuotaError once a client goes over its limit.
+ * Sets RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset on every counted response;
+ * when several limits apply, they describe the one closest to running out.
+ */
+export function rateLimit({ name, max, windowMs, key }: RateLimitOptions): RequestHandler {
+  const limiter = new RateLimiter(max, windowMs);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const client = max > 0 ? key(req) : null;
+    if (client === null) {
+      return next();
+    }
+
+    const now = Date.now();
+    const window = limiter.hit(client, now);
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+    const remaining = Math.max(0, max - window.count);
+    const reported = res.get("RateLimit-Remaining");
+    if (reported === undefined || remaining < Number(reported)) {
+      res.set({
+        "RateLimit-Limit": String(max),
+        "RateLimit-Remaining": String(remaining),
+        "RateLimit-Reset": String(resetSeconds)
+      });
+    }
+
+    if (window.count > max) {
+      return next(new QuotaError("RATE_LIMITED", "Too many requests, slow down and try again shortly", resetSeconds, { limit: name }));
+    }
+    next();
+  };
+}
+
+/**
+ * Limits every API request per IP address, signed in or not (including sign-in attempts)
+ */
+export function ipRateLimit(perMinute: number): RequestHandler {
+  return rateLimit({
+    name: "ip",
+    max: perMinute,
+    windowMs: 60_000,
+    key: req => req.ip ?? req.socket.remoteAddress ?? "unknown"
+  });
+}
+
+/**
+ * Limits requests that call the LLM per account, however they authenticate, so minting more
+ * API tokens doesn't raise the limit. Requests with a token also count against a per-token limit,
+ * so one script can't use up its account's share. Mount after authentication.
+ */
+export function llmRateLimit(perAccount: number, perToken: number): RequestHandler {
+  const account = rateLimit({
+    name: "llm",
+    max: perAccount,
+    windowMs: 60_000,
+    key: req => req.user ? `account:${req.user.id}` : null
+  });
+  const token = rateLimit({
+    name: "llm-token",
+    max: perToken,
+    windowMs: 60_000,
+    key: req => req.apiTokenId !== undefined ? `token:${req.apiTokenId}` : null
+  });
+
+  return (req, res, next) => account(req, res, (error?: unknown) => error ? next(error) : token(req, res, next));
+}
+
+/**
+ * Refuses requests with a 429 QuotaExceededError once the signed-in account has used up a daily LLM quota
+ */
+export function requireQuota(usage: UsageService): RequestHandler {
+  return async (req, _res, next) => {
+    try {
+      if (req.user) {
+        await usage.assertWithinQuota(req.user.id);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,208 +1,774 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
+import { createWriteStream } from "fs";
+import { mkdtemp, rm } from "fs/promises";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { communityArchive } from "./services/community-archive";
-import { gemini } from "./services/gemini";
-import { insertUserSchema, insertComparisonSchema } from "@shared/schema";
-import { z } from "zod";
+import { tmpdir } from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { IStorage } from "./storage";
+import { isOwnedBy, requireAuth, setupAuth } from "./auth";
+import type { Services } from "./services";
+import type { Tweet } from "./services/community-archive";
+import { toGraphML } from "./services/graph";
+import { DEFAULT_COMPARISON_ARGUMENT, toComparisonRequest } from "./services/comparisons";
+import { getCacheStats } from "./services/cache";
+import type { JobService, JobType } from "./services/jobs";
+import { importTwitterArchive } from "./services/archive-import";
+import { diffInsightVersions } from "./services/insights";
+import type { CommunityArchive, Job } from "@shared/schema";
+import {
+  archiveLikesQuerySchema,
+  asyncQuerySchema,
+  comparisonFilterSchema,
+  comparisonRequestSchema,
+  conversationQuerySchema,
+  createUserRequestSchema,
+  graphQuerySchema,
+  handlePairParamsSchema,
+  handleParamsSchema,
+  idParamsSchema,
+  insightDiffQuerySchema,
+  jobRequestSchema,
+  roomRequestSchema,
+  threadQuerySchema,
+  translateBetweenRequestSchema,
+  translateRequestSchema,
+  translationFilterSchema,
+  tweetParamsSchema
+} from "@shared/api";
+import { ConflictError, ForbiddenError, NotFoundError, PayloadTooLargeError, toAppError, UnauthorizedError, validate, ValidationError } from "./errors";
+import { httpErrors, renderMetrics, routeLabel } from "./metrics";
 import { log } from "./utils";
+import { openEventStream, type EventStream } from "./sse";
+import { contextAccount } from "./context";
+import { ipRateLimit, llmRateLimit, requireQuota } from "./rate-limit";
+
+// Shape in which tweets used to ground a translation are returned to clients
+function toExemplar(tweet: Tweet) {
+  return {
+    tweetId: tweet.tweet_id,
+    text: tweet.full_text,
+    createdAt: tweet.created_at,
+    favoriteCount: tweet.favorite_count
+  };
+}
+
+/**
+ * Reports a failure on an open event stream, where the status code has already been sent
+ */
+function sendStreamError(req: Request, stream: EventStream, error: unknown, what: string) {
+  if (stream.signal.aborted) {
+    log(`${what} stream cancelled by client`, "express");
+    return;
+  }
+  const appError = toAppError(error);
+  httpErrors.inc({ route: routeLabel(req), status: appError.status, code: appError.code });
+  log(`${what} stream error: ${appError.message}`, "express", appError.status >= 500 ? "error" : "warn");
+  stream.send("error", appError.toJSON());
+}
+
+/**
+ * Loads a user by the :handle path parameter
+ * @throws NotFoundError if there is no such user
+ */
+async function requireUser(storage: IStorage, req: Request) {
+  const { handle } = validate(handleParamsSchema, req.params, "params");
+  const user = await storage.getUserByTwitterHandle(handle);
+  if (!user) {
+    throw new NotFoundError("User not found", { handle });
+  }
+  return user;
+}
+
+/**
+ * Enqueues a job and responds 202 with where to poll for it
+ */
+async function sendJobAccepted(jobs: JobService, req: Request, res: Response, type: JobType, payload: unknown) {
+  const { job, deduplicated } = await jobs.enqueueJob(type, payload, req.user!.id);
+  return res.status(202).location(`/api/jobs/${job.id}`).json({ job: toJobStatus(job), deduplicated });
+}
+
+function toJobStatus(job: Job) {
+  const { payload, result, dedupeKey, enqueuedBy, ...status } = job;
+  return status;
+}
+
+/**
+ * Loads an imported archive by the :id path parameter
+ * @throws NotFoundError if there is no such archive, or it is another account's import
+ */
+async function requireArchive(storage: IStorage, req: Request): Promise<CommunityArchive> {
+  const { id } = validate(idParamsSchema, req.params, "params");
+  const archive = await storage.getCommunityArchive(id);
+  if (!archive || !isOwnedBy({ ownerId: archive.importedBy }, req.user)) {
+    throw new NotFoundError("Archive not found");
+  }
+  return archive;
+}
+
+/**
+ * Streams the request body to a file, so a large upload is never held in memory
+ * @returns The number of bytes received
+ * @throws PayloadTooLargeError once the body is over maxMb
+ */
+async function receiveUpload(req: Request, file: string, maxMb: number): Promise<number> {
+  const maxBytes = maxMb * 1024 * 1024;
+  const tooLarge = () => new PayloadTooLargeError(`Uploads are limited to ${maxMb}MB`, { maxMb });
+  if (Number(req.get("content-length")) > maxBytes) {
+    throw tooLarge();
+  }
+
+  let size = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      callback(size > maxBytes ? tooLarge() : null, chunk);
+    }
+  });
+  // Piped rather than handed to pipeline(), which would destroy the request, and with it the
+  // socket the error response goes out on
+  req.once("error", error => counter.destroy(error));
+  req.pipe(counter);
+  try {
+    await pipeline(counter, createWriteStream(file));
+  } catch (error) {
+    req.unpipe(counter);
+    // Discards the rest of the body
+    req.resume();
+    throw error;
+  }
+  return size;
+}
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(tmpdir(), "archive-import-"));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+export async function registerRoutes(app: Express, services: Services): Promise<Server> {
+  const { config, storage, analysis, usage, jobs, archive: communityArchive } = services;
+  const { describeTaskModel, getTaskConfig } = services.llm;
+  const { buildPersonFrame, loadBridgeAccounts, loadConversation } = services.frames;
+  const { buildNeighbourhood, findBridgeAccounts, suggestComparisonPairs } = services.graph;
+  const { createComparison, loadComparisonPair, saveComparison } = services.comparisons;
+  const { createRoomAnalysis } = services.rooms;
+  const { generateInsight, getFreshInsight, getInsightStaleness } = services.insights;
+
+  // Prometheus scrape endpoint, ahead of sign-in. With a metrics token set, scrapers send it as a bearer token.
+  app.get("/metrics", (req, res, next) => {
+    const token = config.metrics.token;
+    if (token && req.get("authorization") !== `Bearer ${token}`) {
+      return next(new UnauthorizedError("Send the metrics token as a bearer token"));
+    }
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
+  });
+
+  app.use("/api", ipRateLimit(config.rateLimits.ipPerMinute));
+
+  // Sessions, sign-in and API token routes
+  setupAuth(app, config, storage);
 
-export async function registerRoutes(app: Express): Promise<Server> {
   // Test endpoints for troubleshooting
   app.get("/api/health", (req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
   });
 
-  app.get("/api/test/supabase", async (req, res) => {
+  // Everything below needs a signed-in account. Tracked users and their insights are shared by
+  // the whole deployment; translations, comparisons, rooms and jobs belong to whoever made them.
+  app.use("/api", requireAuth);
+  app.use("/api", contextAccount());
+
+  // Routes that call the LLM are rate limited per account and API token and count against daily quotas
+  const llmRateLimiter = llmRateLimit(config.rateLimits.llmPerMinute, config.rateLimits.llmPerTokenPerMinute);
+  const quotaCheck = requireQuota(usage);
+
+  // Today's LLM usage and remaining quota for the signed-in account
+  app.get("/api/usage", async (req, res, next) => {
+    try {
+      res.json(await usage.getUsageSummary(req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Hit/miss counts for the archive and LLM caches since startup
+  app.get("/api/cache/stats", (req, res) => {
+    res.json(getCacheStats(services.caches));
+  });
+
+  app.get("/api/test/supabase", async (req, res, next) => {
     try {
       const tweets = await communityArchive.getRecentPopularTweets("_TheExGenesis");
-      res.json({ 
-        success: true, 
+      res.json({
+        success: true,
         tweetsCount: tweets.length,
         sampleTweet: tweets.length > 0 ? tweets[0] : null
       });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "An unexpected error occurred";
-      log(`Supabase test error: ${message}`, "express");
-      res.status(500).json({ success: false, message });
+      next(error);
     }
   });
 
-  app.get("/api/test/gemini", async (req, res) => {
+  app.get("/api/test/gemini", llmRateLimiter, quotaCheck, async (req, res, next) => {
     try {
-      const result = await gemini.generateInsights("This is a test tweet. Just testing the Gemini API integration.");
-      res.json({ success: true, result });
+      const result = await analysis.generateInsights("This is a test tweet. Just testing the LLM provider integration.");
+      res.json({ success: true, config: getTaskConfig("insights"), result });
     } catch (error) {
-      const message = error instanceof Error ? error.message : "An unexpected error occurred";
-      log(`Gemini test error: ${message}`, "express");
-      res.status(500).json({ success: false, message });
+      next(error);
     }
   });
 
   // Frame translation endpoint
-  app.post("/api/translate", async (req, res) => {
+  app.post("/api/translate", llmRateLimiter, quotaCheck, async (req, res, next) => {
     try {
-      const { sourceText, targetHandle } = req.body;
+      const { sourceText, targetHandle } = validate(translateRequestSchema, req.body, "body");
+
+      // Build the target's frame from the archive; this also checks they exist
+      const target = await buildPersonFrame(targetHandle);
+
+      // Perform the translation
+      const result = await analysis.translateBetweenFrames(sourceText, target);
 
-      if (!sourceText || !targetHandle) {
-        return res.status(400).json({ 
-          message: "Source text and target handle are required" 
-        });
+      const translation = await storage.createTranslation({
+        sourceText,
+        targetHandle: target.handle,
+        ...result,
+        insightId: target.insight?.id ?? null,
+        exemplarTweetIds: target.exemplars.map(t => t.tweet_id),
+        ownerId: req.user!.id,
+        createdAt: new Date()
+      });
+
+      res.json({
+        ...translation,
+        exemplars: target.exemplars.map(toExemplar)
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Streaming translation: emits a "frame" event with the detected frames, "token" events with
+  // translation text as it is generated, then "done" with the saved translation
+  app.post("/api/translate/stream", llmRateLimiter, quotaCheck, async (req, res, next) => {
+    let body, target;
+    try {
+      body = validate(translateRequestSchema, req.body, "body");
+      target = await buildPersonFrame(body.targetHandle);
+    } catch (error) {
+      return next(error);
+    }
+    const { sourceText } = body;
+
+    const stream = openEventStream(req, res);
+    try {
+      const frames = await analysis.detectFrames(sourceText, target);
+      if (stream.signal.aborted) return;
+      stream.send("frame", frames);
+
+      let text = "";
+      for await (const chunk of analysis.streamTranslation(sourceText, target, frames, stream.signal)) {
+        // Leaving the loop cancels the provider's stream, so a gone client isn't billed for the rest
+        if (stream.signal.aborted) break;
+        text += chunk;
+        stream.send("token", { text: chunk });
       }
 
-      // First check if the target user exists in our Community Archive
-      try {
-        await communityArchive.getRecentPopularTweets(targetHandle);
-      } catch (error) {
-        return res.status(404).json({ 
-          message: `Could not find Twitter profile for @${targetHandle}` 
-        });
+      if (stream.signal.aborted) return;
+
+      const translation = await storage.createTranslation({
+        sourceText,
+        targetHandle: target.handle,
+        ...frames,
+        translation: text.trim(),
+        ...describeTaskModel("translation"),
+        insightId: target.insight?.id ?? null,
+        exemplarTweetIds: target.exemplars.map(t => t.tweet_id),
+        ownerId: req.user!.id,
+        createdAt: new Date()
+      });
+
+      stream.send("done", {
+        ...translation,
+        exemplars: target.exemplars.map(toExemplar)
+      });
+    } catch (error) {
+      sendStreamError(req, stream, error, "Translation");
+    } finally {
+      stream.end();
+    }
+  });
+
+  // Person-to-person translation: explain what @source means to @target
+  app.post("/api/translate/between", llmRateLimiter, quotaCheck, async (req, res, next) => {
+    try {
+      const { sourceHandle, targetHandle, tweetId, text } = validate(translateBetweenRequestSchema, req.body, "body");
+
+      const [source, target] = await Promise.all([
+        buildPersonFrame(sourceHandle),
+        buildPersonFrame(targetHandle)
+      ]);
+
+      let sourceText = text ?? "";
+      if (tweetId) {
+        const tweet = await communityArchive.getTweet(tweetId);
+        if (!tweet || tweet.account_id !== source.account.account_id) {
+          throw new NotFoundError(`Tweet ${tweetId} by @${source.handle} not found in the archive`, { tweetId });
+        }
+        sourceText = tweet.full_text;
       }
 
-      // Perform the translation
-      const result = await gemini.translateBetweenFrames(
+      const [conversation, bridges] = await Promise.all([
+        loadConversation(source.handle, target.handle),
+        loadBridgeAccounts(source.handle, target.handle)
+      ]);
+      const result = await analysis.translateBetweenPeople(sourceText, source, target, { conversation, bridges });
+
+      const translation = await storage.createTranslation({
         sourceText,
-        targetHandle
-      );
+        sourceHandle: source.handle,
+        sourceTweetId: tweetId ?? null,
+        targetHandle: target.handle,
+        ...result,
+        insightId: target.insight?.id ?? null,
+        exemplarTweetIds: [...source.exemplars, ...target.exemplars].map(t => t.tweet_id),
+        ownerId: req.user!.id,
+        createdAt: new Date()
+      });
+
+      res.json({
+        ...translation,
+        sourceExemplars: source.exemplars.map(toExemplar),
+        exemplars: target.exemplars.map(toExemplar),
+        bridges
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Translation history, newest first
+  app.get("/api/translations", async (req, res, next) => {
+    try {
+      const filter = validate(translationFilterSchema, req.query, "query");
+      res.json(await storage.listTranslations({ ...filter, ownerId: req.user!.id }));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/translations/:id", async (req, res, next) => {
+    try {
+      const { id } = validate(idParamsSchema, req.params, "params");
+      const translation = await storage.getTranslation(id);
+      if (!translation || !isOwnedBy(translation, req.user)) {
+        throw new NotFoundError("Translation not found");
+      }
+
+      res.json(translation);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Threads and conversations rebuilt from reply links in the archive
+  app.get("/api/tweets/:id/thread", async (req, res, next) => {
+    try {
+      const { id } = validate(tweetParamsSchema, req.params, "params");
+      const thread = await communityArchive.getThread(id);
+      if (!thread) {
+        throw new NotFoundError(`Tweet ${id} not found in the archive`);
+      }
+      res.json(thread);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/users/:handle/threads", async (req, res, next) => {
+    try {
+      const { handle } = validate(handleParamsSchema, req.params, "params");
+      const { limit } = validate(threadQuerySchema, req.query, "query");
+
+      const account = await communityArchive.resolveAccount(handle);
+      res.json(await communityArchive.getSelfThreads(account.account_id, limit));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/conversations/:handleA/:handleB", async (req, res, next) => {
+    try {
+      const { handleA, handleB } = validate(handlePairParamsSchema, req.params, "params");
+      const { limit } = validate(conversationQuerySchema, req.query, "query");
+      res.json(await communityArchive.getConversation(handleA, handleB, limit));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Relationship graph built from replies and mentions; ?format=graphml for GraphML
+  app.get("/api/graph/:handle", async (req, res, next) => {
+    try {
+      const { handle } = validate(handleParamsSchema, req.params, "params");
+      const { format, ...options } = validate(graphQuerySchema, req.query, "query");
+      const graph = await buildNeighbourhood(handle, { limit: 25, ...options });
+
+      if (format === "graphml" || (!format && req.accepts(["json", "application/graphml+xml"]) === "application/graphml+xml")) {
+        return res.type("application/graphml+xml").send(toGraphML(graph));
+      }
+      res.json(graph);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // People worth comparing someone with: accounts they talk with in both directions
+  app.get("/api/graph/:handle/suggestions", async (req, res, next) => {
+    try {
+      const { handle } = validate(handleParamsSchema, req.params, "params");
+      const { format, ...options } = validate(graphQuerySchema, req.query, "query");
+      res.json(await suggestComparisonPairs(handle, { limit: 25, ...options }));
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      res.json(result);
+  // Accounts two people both interact with
+  app.get("/api/graph/:handleA/bridges/:handleB", async (req, res, next) => {
+    try {
+      const { handleA, handleB } = validate(handlePairParamsSchema, req.params, "params");
+      const { format, ...options } = validate(graphQuerySchema, req.query, "query");
+      res.json(await findBridgeAccounts(handleA, handleB, options));
     } catch (error) {
-      const message = error instanceof Error ? error.message : "An unexpected error occurred";
-      log(`Translation error: ${message}`, "express");
-      res.status(500).json({ message });
+      next(error);
     }
   });
 
-  // Get or create user profile
-  app.post("/api/users", async (req, res) => {
+  app.post("/api/users", async (req, res, next) => {
     try {
-      const data = insertUserSchema.parse(req.body);
+      const data = validate(createUserRequestSchema, req.body, "body");
+      if (await storage.getUserByTwitterHandle(data.twitterHandle)) {
+        throw new ConflictError("A user with this Twitter handle already exists", { twitterHandle: data.twitterHandle });
+      }
+      if (await storage.getUserByUsername(data.username)) {
+        throw new ConflictError("A user with this username already exists", { username: data.username });
+      }
       const user = await storage.createUser(data);
       res.json(user);
     } catch (error) {
-      const message = error instanceof Error ? error.message : "An unexpected error occurred";
-      res.status(400).json({ message });
+      next(error);
+    }
+  });
+
+  // Get user insights, generating them on first request and regenerating them once stale
+  app.get("/api/users/:handle/insights", llmRateLimiter, quotaCheck, async (req, res, next) => {
+    try {
+      const user = await requireUser(storage, req);
+      const { async } = validate(asyncQuerySchema, req.query, "query");
+
+      if (async) {
+        // Answer straight away when the stored insight is still fresh
+        const existing = await storage.getInsight(user.id);
+        const staleness = existing && await getInsightStaleness(existing, user.twitterHandle);
+        if (existing && staleness && !staleness.stale) {
+          return res.json({ ...existing, staleness });
+        }
+        return await sendJobAccepted(jobs, req, res, "insight.create", { handle: user.twitterHandle });
+      }
+
+      const { insight, staleness } = await getFreshInsight(user);
+      res.json({ ...insight, staleness });
+    } catch (error) {
+      next(error);
     }
   });
 
-  // Get user insights
-  app.get("/api/users/:handle/insights", async (req, res) => {
+  // Force a new insight version regardless of staleness
+  app.post("/api/users/:handle/insights/refresh", llmRateLimiter, quotaCheck, async (req, res, next) => {
     try {
-      const user = await storage.getUserByTwitterHandle(req.params.handle);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const user = await requireUser(storage, req);
+      const { async } = validate(asyncQuerySchema, req.query, "query");
+
+      if (async) {
+        return await sendJobAccepted(jobs, req, res, "insight.refresh", { handle: user.twitterHandle });
       }
 
-      let insight = await storage.getInsight(user.id);
+      const insight = await generateInsight(user);
+      res.json(insight);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      if (!insight) {
-        try {
-          // Fetch and analyze tweets
-          const tweets = await communityArchive.getRecentPopularTweets(user.twitterHandle);
-          const tweetHistory = tweets.map(t => t.full_text).join("\n");
+  app.get("/api/users/:handle/insights/versions", async (req, res, next) => {
+    try {
+      const user = await requireUser(storage, req);
+      res.json(await storage.getInsightVersions(user.id));
+    } catch (error) {
+      next(error);
+    }
+  });
 
-          if (!tweetHistory.trim()) {
-            return res.status(400).json({ 
-              message: "No tweets available for analysis", 
-              twitterHandle: user.twitterHandle 
-            });
-          }
+  // Diff two insight versions; defaults to the previous version against the latest
+  app.get("/api/users/:handle/insights/diff", async (req, res, next) => {
+    try {
+      const user = await requireUser(storage, req);
+      const query = validate(insightDiffQuerySchema, req.query, "query");
+
+      const versions = await storage.getInsightVersions(user.id);
+      const latest = versions[versions.length - 1];
+      const to = query.to ?? latest?.version;
+      const from = query.from ?? (to !== undefined ? to - 1 : undefined);
+
+      const fromVersion = versions.find(v => v.version === from);
+      const toVersion = versions.find(v => v.version === to);
+      if (!fromVersion || !toVersion) {
+        throw new NotFoundError("Insight version not found", { availableVersions: versions.map(v => v.version) });
+      }
 
-          const analysis = await gemini.generateInsights(tweetHistory);
+      res.json(diffInsightVersions(fromVersion, toVersion));
+    } catch (error) {
+      next(error);
+    }
+  });
 
-          // Create new insight
-          insight = await storage.createInsight({
-            userId: user.id,
-            description: analysis.description,
-            topics: analysis.topics,
-            createdAt: new Date().toISOString()
-          });
+  // Comparison history, newest first
+  app.get("/api/comparisons", async (req, res, next) => {
+    try {
+      const { handle, ...filter } = validate(comparisonFilterSchema, req.query, "query");
 
-          if (!insight) {
-            throw new Error("Failed to create insight");
-          }
-        } catch (tweetError) {
-          return res.status(500).json({ 
-            message: `Failed to process tweets: ${tweetError instanceof Error ? tweetError.message : 'Unknown error'}`,
-            twitterHandle: user.twitterHandle 
-          });
+      let userId: number | undefined;
+      if (handle) {
+        const user = await storage.getUserByTwitterHandle(handle);
+        if (!user) {
+          return res.json([]);
         }
+        userId = user.id;
       }
 
-      res.json(insight);
+      res.json(await storage.listComparisons({ ...filter, userId, ownerId: req.user!.id }));
     } catch (error) {
-      const message = error instanceof Error ? error.message : "An unexpected error occurred";
-      res.status(500).json({ message });
+      next(error);
+    }
+  });
+
+  app.get("/api/comparisons/:id", async (req, res, next) => {
+    try {
+      const { id } = validate(idParamsSchema, req.params, "params");
+      const comparison = await storage.getComparison(id);
+      if (!comparison || !isOwnedBy(comparison, req.user)) {
+        throw new NotFoundError("Comparison not found");
+      }
+
+      res.json(comparison);
+    } catch (error) {
+      next(error);
     }
   });
 
   // Create comparison between users
-  app.post("/api/comparisons", async (req, res) => {
+  app.post("/api/comparisons", llmRateLimiter, quotaCheck, async (req, res, next) => {
     try {
-      // First get both users
-      const [userA, userB] = await Promise.all([
-        storage.getUser(req.body.userAId),
-        storage.getUser(req.body.userBId)
-      ]);
+      const { userAId, userBId, argument } = validate(comparisonRequestSchema, req.body, "body");
+      const { async } = validate(asyncQuerySchema, req.query, "query");
 
-      if (!userA || !userB) {
-        return res.status(404).json({ message: "One or both users not found" });
+      if (async) {
+        return await sendJobAccepted(jobs, req, res, "comparison.create", { userAId, userBId, argument });
       }
 
-      // Get insights after confirming users exist
-      const [insightA, insightB] = await Promise.all([
-        storage.getInsight(userA.id),
-        storage.getInsight(userB.id)
-      ]);
+      const comparison = await createComparison(userAId, userBId, argument, req.user!.id);
+      res.json(comparison);
+    } catch (error) {
+      next(error);
+    }
+  });
 
-      if (!insightA || !insightB) {
-        return res.status(404).json({ 
-          message: "Insights not found for one or both users",
-          details: {
-            userA: { id: userA.id, hasInsight: !!insightA },
-            userB: { id: userB.id, hasInsight: !!insightB }
-          }
-        });
-      }
-
-      // Generate explanation using Gemini with Twitter handles
-      const explanation = await gemini.explainArgument(
-        insightA.description,
-        insightB.description,
-        "Find meaningful connection points", // Generic prompt
-        userA.twitterHandle,
-        userB.twitterHandle
-      );
-
-      if (!explanation) {
-        throw new Error("Failed to generate explanation");
-      }
-
-      // Now create the full comparison object with all required fields
-      const comparisonData = {
-        userAId: userA.id,
-        userBId: userB.id,
-        argumentText: "Find meaningful connection points", // Generic prompt
-        explanation: explanation,
-        createdAt: new Date(), // Send as Date object instead of string
-      };
-
-      // Validate and create the comparison
-      const validatedData = insertComparisonSchema.parse(comparisonData);
-      const comparison = await storage.createComparison(validatedData);
+  // Streaming comparison: emits "token" events with the raw JSON output as it is generated,
+  // then "done" with the saved comparison and its structured result
+  app.post("/api/comparisons/stream", llmRateLimiter, quotaCheck, async (req, res, next) => {
+    let argument, pair;
+    try {
+      const body = validate(comparisonRequestSchema, req.body, "body");
+      argument = body.argument ?? DEFAULT_COMPARISON_ARGUMENT;
+      pair = await loadComparisonPair(body.userAId, body.userBId);
+    } catch (error) {
+      return next(error);
+    }
+    const request = toComparisonRequest(pair, argument);
 
-      res.json(comparison);
+    const stream = openEventStream(req, res);
+    try {
+      let output = "";
+      for await (const chunk of analysis.streamComparison(request, stream.signal)) {
+        if (stream.signal.aborted) break;
+        output += chunk;
+        stream.send("token", { text: chunk });
+      }
+
+      if (stream.signal.aborted) return;
+
+      const result = await analysis.parseComparison(request, output);
+      stream.send("done", await saveComparison(pair, argument, result, req.user!.id));
     } catch (error) {
-      if (error instanceof Error) {
-        log(`Comparison creation error: ${error.message}`, "express");
-        console.error("Full error:", error);
-        res.status(500).json({ message: error.message });
-      } else {
-        res.status(500).json({ message: "An unexpected error occurred" });
+      sendStreamError(req, stream, error, "Comparison");
+    } finally {
+      stream.end();
+    }
+  });
+
+  // Group analysis of several users on one question
+  app.post("/api/rooms", llmRateLimiter, quotaCheck, async (req, res, next) => {
+    try {
+      const body = validate(roomRequestSchema, req.body, "body");
+      const { async } = validate(asyncQuerySchema, req.query, "query");
+
+      if (async) {
+        return await sendJobAccepted(jobs, req, res, "room.create", body);
       }
+
+      res.json(await createRoomAnalysis(body, req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/rooms/:id", async (req, res, next) => {
+    try {
+      const { id } = validate(idParamsSchema, req.params, "params");
+      const room = await storage.getRoom(id);
+      if (!room || !isOwnedBy(room, req.user)) {
+        throw new NotFoundError("Room not found");
+      }
+
+      res.json(room);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/users/:handle/rooms", async (req, res, next) => {
+    try {
+      const user = await requireUser(storage, req);
+      res.json(await storage.getRoomsByUser(user.id, req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Imported Twitter/X data exports. An import made here is private to the account that made it:
+  // only that account sees it listed, and the archive client reads it only on that account's
+  // behalf. Imports from the command line are read for everyone and can't be deleted here.
+  app.post("/api/archives", async (req, res, next) => {
+    try {
+      const missingBody = () => new ValidationError("Send the export zip as the request body, with Content-Type application/zip", { location: "body" });
+      if (!req.is(["application/zip", "application/octet-stream"])) {
+        throw missingBody();
+      }
+      const archive = await withTempDir(async dir => {
+        const file = path.join(dir, "export.zip");
+        if (await receiveUpload(req, file, config.archive.importMaxMb) === 0) {
+          throw missingBody();
+        }
+        return importTwitterArchive(storage, file, req.user!.id);
+      });
+      res.status(201).location(`/api/archives/${archive.id}`).json(archive);
+    } catch (error) {
+      // The rest of an upload that's too large goes unread, so its connection can't be reused
+      if (error instanceof PayloadTooLargeError) res.set("Connection", "close");
+      next(error);
+    }
+  });
+
+  app.get("/api/archives", async (req, res, next) => {
+    try {
+      res.json(await storage.listCommunityArchives(req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/archives/:id", async (req, res, next) => {
+    try {
+      res.json(await requireArchive(storage, req));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/archives/:id/likes", async (req, res, next) => {
+    try {
+      const archive = await requireArchive(storage, req);
+      const { limit, offset } = validate(archiveLikesQuerySchema, req.query, "query");
+      res.json(await storage.getArchiveLikes(archive.id, limit, offset));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/archives/:id", async (req, res, next) => {
+    try {
+      const archive = await requireArchive(storage, req);
+      if (archive.importedBy === null) {
+        throw new ForbiddenError("Archives imported from the command line can't be deleted through the API");
+      }
+      await storage.deleteCommunityArchive(archive.id);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Background jobs
+  app.post("/api/jobs", llmRateLimiter, quotaCheck, async (req, res, next) => {
+    try {
+      const { type, payload } = validate(jobRequestSchema, req.body, "body");
+      return await sendJobAccepted(jobs, req, res, type, payload);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req, res, next) => {
+    try {
+      const { id } = validate(idParamsSchema, req.params, "params");
+      const job = await storage.getJob(id);
+      if (!job || !isOwnedBy(job, req.user)) {
+        throw new NotFoundError("Job not found");
+      }
+      res.json(toJobStatus(job));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // 200 with the result once succeeded, 202 while pending, 409 if the job failed
+  app.get("/api/jobs/:id/result", async (req, res, next) => {
+    try {
+      const { id } = validate(idParamsSchema, req.params, "params");
+      const job = await storage.getJob(id);
+      if (!job || !isOwnedBy(job, req.user)) {
+        throw new NotFoundError("Job not found");
+      }
+
+      switch (job.status) {
+        case "succeeded":
+          return res.json(job.result);
+        case "failed":
+          throw new ConflictError(job.error ?? "Job failed", { job: toJobStatus(job) });
+        default:
+          return res.status(202).json({ job: toJobStatus(job) });
+      }
+    } catch (error) {
+      next(error);
     }
   });
 
   const httpServer = createServer(app);
   return httpServer;
-}
\ No newline at end of file
+}
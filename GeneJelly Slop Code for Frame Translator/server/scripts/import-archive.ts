@@ -0,0 +1,41 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { ConfigError, loadConfig } from "../config";
+import { AppError } from "../errors";
+import { createStorage } from "../storage";
+import { importTwitterArchive } from "../services/archive-import";
+import { configureLogging } from "../utils";
+
+/**
+ * Imports Twitter/X data exports into the configured storage, for a running server to serve:
+ *   npm run archive:import -- path/to/twitter-export.zip [more.zip ...]
+ */
+async function main(files: string[]) {
+  if (files.length === 0) {
+    console.error("Usage: npm run archive:import -- <export.zip> [more.zip ...]");
+    process.exit(1);
+  }
+
+  // The same settings as the server, so the import lands in the database it reads
+  const config = loadConfig();
+  if (!config.database.url) {
+    console.error("DATABASE_URL is not set: an in-memory import would be lost when this command exits");
+    process.exit(1);
+  }
+  configureLogging(config.logging);
+  const storage = createStorage(config.database);
+
+  for (const file of files) {
+    const archive = await importTwitterArchive(storage, file);
+    console.log(`${file}: imported @${archive.username} as archive ${archive.id} (${archive.tweetCount} tweets, ${archive.likeCount} likes)`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  () => process.exit(0),
+  error => {
+    console.error(error instanceof ConfigError || error instanceof AppError ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,360 @@
+import { z } from "zod";
+import { log } from "../utils";
+import type { LLMService, StructuredOptions } from "./llm";
+import {
+  comparisonResultSchema,
+  glossaryEntrySchema,
+  roomResultSchema,
+  type ComparisonResult,
+  type Insight,
+  type RoomResult
+} from "@shared/schema";
+import type { Conversation } from "./community-archive";
+import type { PersonFrame } from "./frames";
+import type { BridgeAccount } from "./graph";
+
+// Output schemas for each LLM task. Responses that don't match are repaired or rejected.
+export const insightsOutputSchema = z.object({
+  description: z.string().min(1),
+  lifeExperiences: z.array(z.string().min(1)),
+  concepts: z.array(z.string().min(1)).min(1),
+  subcultures: z.array(z.string().min(1)),
+  writingStyle: z.string().min(1)
+});
+
+export const translationOutputSchema = z.object({
+  sourceFrame: z.string().min(1),
+  targetFrame: z.string().min(1),
+  translation: z.string().min(1)
+});
+
+export const frameDetectionOutputSchema = translationOutputSchema.pick({
+  sourceFrame: true,
+  targetFrame: true
+});
+
+export const personTranslationOutputSchema = translationOutputSchema.extend({
+  glossary: z.array(glossaryEntrySchema)
+});
+
+export type InsightsOutput = z.infer<typeof insightsOutputSchema>;
+export type TranslationOutput = z.infer<typeof translationOutputSchema>;
+export type FrameDetectionOutput = z.infer<typeof frameDetectionOutputSchema>;
+export type PersonTranslationOutput = z.infer<typeof personTranslationOutputSchema>;
+
+/**
+ * Two people to compare and the argument or topic to compare them on
+ */
+export interface ComparisonRequest {
+  argument: string;
+  a: { handle: string; description: string };
+  b: { handle: string; description: string };
+  conversation?: Conversation | null;
+}
+
+/**
+ * What two people already share, used to ground translations between them
+ */
+export interface SharedContext {
+  conversation?: Conversation | null;
+  bridges?: BridgeAccount[];
+}
+
+/**
+ * Renders a stored insight as a persona summary for use inside prompts
+ */
+export function describeInsight(insight: Insight): string {
+  return [
+    insight.description,
+    `Life experiences: ${insight.lifeExperiences.join("; ") || "unknown"}`,
+    `Key concepts: ${insight.concepts.join(", ")}`,
+    `Subcultures: ${insight.subcultures.join(", ") || "unknown"}`,
+    `Writing style: ${insight.writingStyle}`
+  ].join("\n");
+}
+
+/**
+ * Renders a person's frame (persona plus exemplar tweets) for use inside prompts
+ */
+export function describeFrame(frame: PersonFrame): string {
+  const persona = frame.insight
+    ? describeInsight(frame.insight)
+    : "No stored profile yet; infer their frame from the tweets below.";
+  const exemplars = frame.exemplars
+    .map(tweet => `[${tweet.tweet_id}] ${tweet.full_text.replace(/\s+/g, " ")}`)
+    .join("\n");
+
+  return `Profile of @${frame.handle}:
+${persona}
+
+Tweets written by @${frame.handle}:
+${exemplars || "(none available)"}`;
+}
+
+/**
+ * Renders the most recent exchanges between two people for use inside prompts
+ * @param maxTweets Older tweets are left out once this many have been included
+ */
+export function describeConversation(conversation: Conversation, maxTweets: number = 40): string {
+  const usernames = new Map(conversation.accounts.map(account => [account.account_id, account.username]));
+  const [a, b] = conversation.accounts;
+  const sections: string[] = [];
+  let included = 0;
+
+  for (const exchange of conversation.exchanges) {
+    if (included >= maxTweets) break;
+    const tweets = exchange.tweets.slice(-(maxTweets - included));
+    included += tweets.length;
+    const lines = tweets.map(tweet =>
+      `@${usernames.get(tweet.account_id) ?? "unknown"}: ${tweet.full_text.replace(/\s+/g, " ")}`
+    );
+    sections.push(`Exchange on ${tweets[0].created_at.slice(0, 10)}:\n${lines.join("\n")}`);
+  }
+
+  return `How @${a.username} and @${b.username} have actually talked to each other:
+${sections.join("\n\n")}`;
+}
+
+function comparisonPrompt({ argument, a, b, conversation }: ComparisonRequest): string {
+  const history = conversation
+    ? `\n${describeConversation(conversation)}\n\nUse these exchanges to ground the comparison in how they already relate to each other.\n`
+    : "";
+
+  return `Compare how these two Twitter users would each approach the following argument or topic:
+
+"${argument}"
+
+User @${a.handle}: ${a.description}
+
+User @${b.handle}: ${b.description}
+${history}
+Be specific to these two people and to the argument; don't invent positions their profiles don't support.
+In every field, "A" means @${a.handle} and "B" means @${b.handle}.
+
+Output your response in this exact JSON format:
+{
+  "sharedValues": ["value or commitment both bring to the argument"],
+  "disagreements": [
+    { "topic": "point they would disagree on", "positionA": "@${a.handle}'s likely position", "positionB": "@${b.handle}'s likely position" }
+  ],
+  "vocabularyDifferences": [
+    { "concept": "idea both talk about", "termA": "how @${a.handle} would say it", "termB": "how @${b.handle} would say it" }
+  ],
+  "bridgingStatement": "one or two sentences both of them could agree with",
+  "suggestedNextStep": "a concrete way the two could begin engaging on this"
+}`;
+}
+
+/**
+ * The prompts behind every analysis, each run on its task's configured model
+ */
+export function createAnalysisService({ generateStructured, streamForTask, validateStructured, describeTaskModel }: LLMService) {
+  return {
+    /**
+     * Builds a persona profile from a tweet history
+     * @param options Pass `{ cache: false }` to regenerate rather than reuse an earlier answer
+     */
+    async generateInsights(tweetHistory: string, options: StructuredOptions = {}): Promise<InsightsOutput> {
+      log("Generating insights from tweet history", 'analysis');
+
+      const promptText = `
+    Analyze this Twitter history and build a persona profile of its author in JSON format:
+    {
+      "description": "A comprehensive description of the person",
+      "lifeExperiences": ["formative experience, job, place or event the person refers to"],
+      "concepts": ["idea or mental model the person returns to"],
+      "subcultures": ["community or scene the person belongs to or speaks to"],
+      "writingStyle": "How the person writes: tone, vocabulary, sentence length, humour, use of jargon"
+    }
+
+    Only include life experiences and subcultures that the tweets support; use an empty list when there is no evidence.
+    Each line of the history is one tweet, prefixed with its date. Replies include the tweet they answer in parentheses; only the text after it was written by this person.
+
+    Tweet history:
+    ${tweetHistory}`;
+
+      const { data, response } = await generateStructured("insights", promptText, insightsOutputSchema, options);
+      log(`Received insights from ${response.provider}/${response.model}`, 'analysis');
+      return data;
+    },
+    /**
+     * Compares two people on an argument or topic
+     */
+    async compare(request: ComparisonRequest): Promise<ComparisonResult> {
+      const { data } = await generateStructured("comparison", comparisonPrompt(request), comparisonResultSchema);
+      return data;
+    },
+    /**
+     * Same as compare, but yields the raw JSON output as it is generated.
+     * Pass the full text to parseComparison once the stream ends.
+     */
+    streamComparison(request: ComparisonRequest, signal?: AbortSignal): AsyncIterable<string> {
+      return streamForTask("comparison", comparisonPrompt(request), signal);
+    },
+    /**
+     * Validates streamed comparison output, repairing it if needed
+     */
+    async parseComparison(request: ComparisonRequest, text: string): Promise<ComparisonResult> {
+      const { data } = await validateStructured(
+        "comparison",
+        comparisonPrompt(request),
+        { text, ...describeTaskModel("comparison") },
+        comparisonResultSchema
+      );
+      return data;
+    },
+    /**
+     * Analyses where a group of people agree and split on a question
+     */
+    async analyzeRoom(question: string, members: { handle: string; description: string }[]): Promise<RoomResult> {
+      const profiles = members.map(m => `User @${m.handle}: ${m.description}`).join("\n\n");
+      const prompt = `Analyze how this group of Twitter users would approach the following question as a group:
+
+"${question}"
+
+${profiles}
+
+Group the members into clusters by conceptual frame, so that everyone appears in exactly one cluster.
+Then find the points nearly everyone would agree on, and the points where the group splits, saying which members fall on each side.
+Finally, suggest introductions between pairs of members who would get the most out of talking to each other about this question, for example because they bridge two clusters.
+Refer to members only by their handles, without the @, exactly as written above. Don't invent positions their profiles don't support.
+
+Output your response in this exact JSON format:
+{
+  "clusters": [
+    { "frame": "name of the shared frame", "description": "how this cluster sees the question", "members": ["handle"] }
+  ],
+  "consensus": ["point nearly everyone would agree on"],
+  "splits": [
+    { "topic": "point the group splits on", "sides": [{ "position": "one position", "members": ["handle"] }, { "position": "another position", "members": ["handle"] }] }
+  ],
+  "introductions": [
+    { "handles": ["handle", "handle"], "reason": "why these two should talk" }
+  ],
+  "summary": "two or three sentences on where the group stands"
+}`;
+
+      const { data } = await generateStructured("comparison", prompt, roomResultSchema);
+      return data;
+    },
+    /**
+     * Names the frame of a text and the frame of the target person, without translating.
+     * Used by the streaming translation so the frames can be sent before the translation tokens.
+     */
+    async detectFrames(sourceText: string, target: PersonFrame): Promise<FrameDetectionOutput> {
+      const prompt = `Analyze the following text and the person described below.
+
+Source text:
+${sourceText}
+
+${describeFrame(target)}
+
+Detect and name the conceptual frame/paradigm of the source text (e.g., "woo-woo", "STEM", "academic", "practical", etc.).
+Then, name @${target.handle}'s conceptual frame based on their profile and tweets above.
+
+Output your response in this exact JSON format:
+{
+  "sourceFrame": "name of detected frame",
+  "targetFrame": "name of target frame"
+}`;
+
+      const { data } = await generateStructured("translation", prompt, frameDetectionOutputSchema);
+      return data;
+    },
+    /**
+     * Streams a translation of text whose frames have already been detected
+     */
+    streamTranslation(
+      sourceText: string,
+      target: PersonFrame,
+      frames: FrameDetectionOutput,
+      signal?: AbortSignal
+    ): AsyncIterable<string> {
+      const prompt = `Translate the following text from the "${frames.sourceFrame}" frame into @${target.handle}'s "${frames.targetFrame}" frame.
+
+Source text:
+${sourceText}
+
+${describeFrame(target)}
+
+Maintain the core meaning but express it the way @${target.handle} actually writes: borrow their vocabulary, references and tone from the tweets above, without copying them.
+Respond with the translated text only, with no preamble or commentary.`;
+
+      return streamForTask("translation", prompt, signal);
+    },
+    /**
+     * Detects the conceptual frame of a given text and translates it into the target person's frame,
+     * grounded in their stored profile and their own tweets
+     */
+    async translateBetweenFrames(
+      sourceText: string,
+      target: PersonFrame
+    ): Promise<TranslationOutput & { provider: string; model: string }> {
+      const prompt = `Analyze the following text and translate it into a different conceptual frame.
+
+Source text:
+${sourceText}
+
+${describeFrame(target)}
+
+First, detect and name the conceptual frame/paradigm of the source text (e.g., "woo-woo", "STEM", "academic", "practical", etc.).
+Then, name @${target.handle}'s conceptual frame based on their profile and tweets above, and translate the source text into it.
+Maintain the core meaning but express it the way @${target.handle} actually writes: borrow their vocabulary, references and tone from the tweets above, without copying them.
+
+Output your response in this exact JSON format:
+{
+  "sourceFrame": "name of detected frame",
+  "targetFrame": "name of target frame",
+  "translation": "translated text"
+}`;
+
+      const { data, response } = await generateStructured("translation", prompt, translationOutputSchema);
+      return { ...data, provider: response.provider, model: response.model };
+    },
+    /**
+     * Translates something one person said (or might say) from their frame into another person's,
+     * returning a glossary of the concepts that were mapped between the two frames.
+     * When the two have talked before, or share accounts they both talk with, that common ground is offered to the model.
+     */
+    async translateBetweenPeople(
+      sourceText: string,
+      source: PersonFrame,
+      target: PersonFrame,
+      { conversation, bridges = [] }: SharedContext = {}
+    ): Promise<PersonTranslationOutput & { provider: string; model: string }> {
+      const history = conversation
+        ? `\n${describeConversation(conversation)}\n\nWhere these exchanges show how the two already understand each other, reuse that common ground.\n`
+        : "";
+      const shared = bridges.length > 0
+        ? `\nAccounts both @${source.handle} and @${target.handle} talk with: ${bridges.map(b => `@${b.username}`).join(", ")}. References to these people or their ideas may carry across both frames.\n`
+        : "";
+      const prompt = `Explain what @${source.handle} means to @${target.handle}.
+
+${describeFrame(source)}
+
+${describeFrame(target)}
+${history}${shared}
+Text from @${source.handle}'s frame:
+${sourceText}
+
+First, name @${source.handle}'s conceptual frame and @${target.handle}'s conceptual frame, based on their profiles and tweets above.
+Then, translate the text so that @${target.handle} would understand what @${source.handle} actually means. Keep the meaning intact, but use @${target.handle}'s vocabulary, references and tone.
+Finally, list the concepts you had to map: each glossary entry pairs a term or idea from @${source.handle}'s frame with its closest equivalent in @${target.handle}'s frame, with a short note on what is gained or lost in the mapping.
+
+Output your response in this exact JSON format:
+{
+  "sourceFrame": "name of the source person's frame",
+  "targetFrame": "name of the target person's frame",
+  "translation": "translated text",
+  "glossary": [
+    { "sourceTerm": "term in source frame", "targetTerm": "equivalent in target frame", "note": "what shifts in the mapping" }
+  ]
+}`;
+
+      const { data, response } = await generateStructured("translation", prompt, personTranslationOutputSchema);
+      return { ...data, provider: response.provider, model: response.model };
+    }
+  };
+}
+
+export type AnalysisService = ReturnType<typeof createAnalysisService>;
@@ -0,0 +1,96 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { buildExportZip } from "../testing";
+import { ArchiveImportError, readTwitterArchive } from "./archive-import";
+
+const reply = { in_reply_to_status_id_str: "9", in_reply_to_user_id_str: "7", in_reply_to_screen_name: "dave" };
+const account = [{ account: { accountId: "42", username: "carol", accountDisplayName: "Carol", createdAt: "2012-03-04T05:06:07.000Z" } }];
+
+function tweet(id: string, text: string, extra: Record<string, unknown> = {}) {
+  return { tweet: { id_str: id, full_text: text, created_at: "Wed Oct 10 20:19:24 +0000 2018", favorite_count: "3", retweet_count: "1", ...extra } };
+}
+
+describe("readTwitterArchive", () => {
+  it("reads the account, profile, tweets and likes out of an export", async () => {
+    const zip = await buildExportZip({
+      "twitter-2024/data/account.js": account,
+      "twitter-2024/data/profile.js": [{ profile: { description: { bio: "Frames all the way down" }, avatarMediaUrl: "https://example.com/a.jpg" } }],
+      "twitter-2024/data/tweets-part1.js": [
+        tweet("1", "Reading https://t.co/abc &amp; more", { entities: { urls: [{ url: "https://t.co/abc", expanded_url: "https://example.com/post" }] } }),
+        tweet("2", "@dave agreed", reply)
+      ],
+      // A tweet listed in two parts is kept once
+      "twitter-2024/data/tweets-part2.js": [tweet("2", "@dave agreed", reply)],
+      "twitter-2024/data/like.js": [{ like: { tweetId: "5", fullText: "a &lt;liked&gt; tweet" } }],
+      "twitter-2024/data/tweets_media/1-photo.jpg": "not read"
+    });
+
+    const parsed = await readTwitterArchive(zip);
+
+    expect(parsed.archive).toMatchObject({
+      accountId: "42",
+      username: "carol",
+      displayName: "Carol",
+      bio: "Frames all the way down",
+      avatarMediaUrl: "https://example.com/a.jpg",
+      accountCreatedAt: new Date("2012-03-04T05:06:07.000Z"),
+      tweetCount: 2,
+      likeCount: 1
+    });
+    expect(parsed.tweets).toEqual([
+      expect.objectContaining({ tweetId: "1", fullText: "Reading https://example.com/post & more", favoriteCount: 3, createdAt: new Date("2018-10-10T20:19:24.000Z") }),
+      expect.objectContaining({ tweetId: "2", replyToTweetId: "9", replyToUserId: "7", replyToUsername: "dave" })
+    ]);
+    expect(parsed.likes).toEqual([{ tweetId: "5", fullText: "a <liked> tweet", expandedUrl: null }]);
+  });
+
+  it("reads an export from a file", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "archive-import-test-"));
+    try {
+      const file = path.join(dir, "export.zip");
+      await writeFile(file, await buildExportZip({ "data/account.js": account, "data/tweet.js": [tweet("1", "old-style export")] }));
+
+      const parsed = await readTwitterArchive(file);
+
+      expect(parsed.tweets.map(t => t.fullText)).toEqual(["old-style export"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("rejects something that isn't a zip", async () => {
+    await expect(readTwitterArchive(Buffer.from("definitely not a zip"))).rejects.toThrow(ArchiveImportError);
+  });
+
+  it("rejects a zip without account.js and tweets.js", async () => {
+    const zip = await buildExportZip({ "notes.txt": "hello" });
+
+    await expect(readTwitterArchive(zip)).rejects.toThrow(/account\.js and tweets\.js are missing/);
+  });
+
+  it("rejects files that aren't in the export format", async () => {
+    const zip = await buildExportZip({ "data/account.js": account, "data/tweets.js": [{ tweet: { id_str: "1" } }] });
+
+    await expect(readTwitterArchive(zip)).rejects.toThrow(/data\/tweets\.js is not in the expected format/);
+  });
+
+  it("refuses to inflate a file over the size limit", async () => {
+    const zip = await buildExportZip({ "data/account.js": account, "data/tweets.js": [tweet("1", "x".repeat(5000))] });
+
+    await expect(readTwitterArchive(zip, { maxFileBytes: 1000, maxTotalBytes: 100_000 }))
+      .rejects.toThrow("data/tweets.js is larger than 1000 bytes");
+  });
+
+  it("refuses to inflate more than the total limit across files", async () => {
+    const zip = await buildExportZip({
+      "data/account.js": account,
+      "data/tweets-part1.js": [tweet("1", "x".repeat(600))],
+      "data/tweets-part2.js": [tweet("2", "y".repeat(600))]
+    });
+
+    await expect(readTwitterArchive(zip, { maxFileBytes: 1000, maxTotalBytes: 1500 }))
+      .rejects.toThrow("The export's files add up to more than 1500 bytes");
+  });
+});
@@ -0,0 +1,320 @@
+import yauzl, { type Entry, type ZipFile } from "yauzl";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { CommunityArchive, InsertArchiveLike, InsertArchiveTweet, InsertCommunityArchive } from "@shared/schema";
+import { AppError } from "../errors";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+
+/**
+ * The upload isn't a Twitter/X data export this importer can read
+ */
+export class ArchiveImportError extends AppError {
+  constructor(message: string) {
+    super(400, "INVALID_ARCHIVE", message);
+  }
+}
+
+export interface ParsedTwitterArchive {
+  archive: Omit<InsertCommunityArchive, "importedBy" | "importedAt">;
+  tweets: Omit<InsertArchiveTweet, "archiveId">[];
+  likes: Omit<InsertArchiveLike, "archiveId">[];
+}
+
+// Exports keep their data under data/, sometimes inside a top-level folder. Large ones split
+// tweets into tweets-part1.js and so on; exports from before 2022 call the file tweet.js.
+const exportFiles = {
+  account: /(^|\/)account\.js$/,
+  profile: /(^|\/)profile\.js$/,
+  tweets: /(^|\/)tweets?(-part\d+)?\.js$/,
+  likes: /(^|\/)like(-part\d+)?\.js$/
+};
+
+// Each file is a script assigning the data to a global, e.g. `window.YTD.tweets.part0 = [...]`
+const ASSIGNMENT_PREFIX = /^\uFEFF?\s*window\.YTD\.\w+\.part\d+\s*=\s*/;
+
+export interface ArchiveReadLimits {
+  // Largest file read from the zip, once inflated; JSON much larger than this can't be held as one string anyway
+  maxFileBytes: number;
+  // Most bytes inflated across every file read, so an export split into many parts can't exhaust memory
+  maxTotalBytes: number;
+}
+
+const DEFAULT_LIMITS: ArchiveReadLimits = {
+  maxFileBytes: 512 * 1024 * 1024,
+  maxTotalBytes: 1024 * 1024 * 1024
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Parses the `Wed Oct 10 20:19:24 +0000 2018` dates in tweets.js; other files use ISO dates
+ */
+function parseTwitterDate(value: string): Date | null {
+  const match = /^\w{3} (\w{3}) (\d{1,2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2}) (\d{4})$/.exec(value);
+  if (!match) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const [, month, day, hours, minutes, seconds, sign, offsetHours, offsetMinutes, year] = match;
+  const monthIndex = MONTHS.indexOf(month);
+  if (monthIndex < 0) return null;
+  const offset = (sign === "-" ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes)) * 60_000;
+  return new Date(Date.UTC(Number(year), monthIndex, Number(day), Number(hours), Number(minutes), Number(seconds)) - offset);
+}
+
+const dateSchema = z.string().transform((value, ctx) => {
+  const date = parseTwitterDate(value);
+  if (!date) {
+    ctx.addIssue({ code: "custom", message: `Unrecognised date "${value}"` });
+    return z.NEVER;
+  }
+  return date;
+});
+
+// Counts are strings in current exports and numbers in older ones
+const countSchema = z.coerce.number().int().nonnegative().default(0);
+
+// Entries are wrapped in an object keyed by their type, e.g. `{ "tweet": {...} }`; some old exports aren't
+const unwrap = (key: string) => (entry: unknown) =>
+  typeof entry === "object" && entry !== null && key in entry ? (entry as Record<string, unknown>)[key] : entry;
+
+const accountFileSchema = z.array(z.preprocess(unwrap("account"), z.object({
+  accountId: z.string().min(1),
+  username: z.string().min(1),
+  accountDisplayName: z.string().nullish(),
+  createdAt: dateSchema.nullish()
+}))).min(1, "No account found");
+
+const profileFileSchema = z.array(z.preprocess(unwrap("profile"), z.object({
+  description: z.object({
+    bio: z.string().nullish(),
+    website: z.string().nullish(),
+    location: z.string().nullish()
+  }).nullish(),
+  avatarMediaUrl: z.string().nullish()
+})));
+
+const tweetFileSchema = z.array(z.preprocess(unwrap("tweet"), z.object({
+  id_str: z.string().min(1),
+  full_text: z.string(),
+  created_at: dateSchema,
+  favorite_count: countSchema,
+  retweet_count: countSchema,
+  in_reply_to_status_id_str: z.string().nullish(),
+  in_reply_to_user_id_str: z.string().nullish(),
+  in_reply_to_screen_name: z.string().nullish(),
+  entities: z.object({
+    urls: z.array(z.object({ url: z.string(), expanded_url: z.string().nullish() })).default([])
+  }).default({})
+})));
+
+const likeFileSchema = z.array(z.preprocess(unwrap("like"), z.object({
+  tweetId: z.string().min(1),
+  fullText: z.string().nullish(),
+  expandedUrl: z.string().nullish()
+})));
+
+const HTML_ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">" };
+
+/**
+ * Turns exported tweet text into what was shown: t.co links expanded and HTML entities decoded
+ */
+function cleanTweetText(text: string, urls: { url: string; expanded_url?: string | null }[]): string {
+  let cleaned = text;
+  for (const { url, expanded_url } of urls) {
+    if (expanded_url) cleaned = cleaned.split(url).join(expanded_url);
+  }
+  return cleaned.replace(/&(amp|lt|gt);/g, entity => HTML_ENTITIES[entity]);
+}
+
+/**
+ * Reads the export's files out of the zip, inflating each as a stream and counting its bytes
+ * against the limits rather than trusting the sizes the zip declares
+ */
+class ExportZip {
+  private readBytes = 0;
+
+  private constructor(private zip: ZipFile, readonly entries: Map<string, Entry>, private limits: ArchiveReadLimits) {}
+
+  // Only the entries that are export files are kept; media can run to thousands of entries
+  static async open(source: string | Buffer, limits: ArchiveReadLimits): Promise<ExportZip> {
+    const options = { lazyEntries: true, autoClose: false, validateEntrySizes: true };
+    const zip = typeof source === "string" ? await yauzl.openPromise(source, options) : await yauzl.fromBufferPromise(source, options);
+    try {
+      const entries = await new Promise<Map<string, Entry>>((resolve, reject) => {
+        const found = new Map<string, Entry>();
+        zip.on("entry", (entry: Entry) => {
+          if (Object.values(exportFiles).some(pattern => pattern.test(entry.fileName))) {
+            found.set(entry.fileName, entry);
+          }
+          zip.readEntry();
+        });
+        zip.once("end", () => resolve(found));
+        zip.once("error", reject);
+        zip.readEntry();
+      });
+      return new ExportZip(zip, entries, limits);
+    } catch (error) {
+      zip.close();
+      throw error;
+    }
+  }
+
+  async read(name: string): Promise<Buffer> {
+    const entry = this.entries.get(name)!;
+    const { maxFileBytes, maxTotalBytes } = this.limits;
+    const tooLarge = (size: number) => size > maxFileBytes
+      ? new ArchiveImportError(`${name} is larger than ${maxFileBytes} bytes`)
+      : this.readBytes + size > maxTotalBytes
+        ? new ArchiveImportError(`The export's files add up to more than ${maxTotalBytes} bytes`)
+        : null;
+
+    const declared = tooLarge(entry.uncompressedSize);
+    if (declared) throw declared;
+    if (entry.isEncrypted()) {
+      throw new ArchiveImportError(`${name} is encrypted`);
+    }
+
+    const stream = await this.zip.openReadStreamPromise(entry);
+    const chunks: Buffer[] = [];
+    let size = 0;
+    try {
+      for await (const chunk of stream as AsyncIterable<Buffer>) {
+        size += chunk.length;
+        const error = tooLarge(size);
+        if (error) throw error;
+        chunks.push(chunk);
+      }
+    } finally {
+      stream.destroy();
+    }
+    this.readBytes += size;
+    return Buffer.concat(chunks, size);
+  }
+
+  close(): void {
+    this.zip.close();
+  }
+}
+
+async function readExportFile<T extends z.ZodTypeAny>(zip: ExportZip, name: string, schema: T): Promise<z.output<T>> {
+  const text = (await zip.read(name)).toString("utf8").replace(ASSIGNMENT_PREFIX, "");
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ArchiveImportError(`${name} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    throw new ArchiveImportError(fromZodError(result.error, { prefix: `${name} is not in the expected format` }).message);
+  }
+  return result.data;
+}
+
+// yauzl reports a malformed zip with a plain Error; file system errors (e.g. a missing file) are passed on
+function toImportError(error: unknown): unknown {
+  if (error instanceof AppError || !(error instanceof Error) || "syscall" in error) return error;
+  return new ArchiveImportError(`Not a readable zip file: ${error.message}`);
+}
+
+/**
+ * Reads a Twitter/X data export (the zip from "Download an archive of your data") into the
+ * shape archives are stored in. Only account.js, profile.js, the tweets files and like.js are
+ * read; media and everything else in the zip is ignored.
+ * @param source Path to the zip, or its contents
+ * @throws ArchiveImportError if the zip is unreadable, not a Twitter export or over the limits
+ */
+export async function readTwitterArchive(source: string | Buffer, limits: ArchiveReadLimits = DEFAULT_LIMITS): Promise<ParsedTwitterArchive> {
+  let zip: ExportZip;
+  try {
+    zip = await ExportZip.open(source, limits);
+  } catch (error) {
+    throw toImportError(error);
+  }
+
+  try {
+    const names = Array.from(zip.entries.keys());
+    const matching = (pattern: RegExp) => names.filter(name => pattern.test(name)).sort();
+
+    const [accountFile] = matching(exportFiles.account);
+    const tweetFiles = matching(exportFiles.tweets);
+    if (!accountFile || tweetFiles.length === 0) {
+      throw new ArchiveImportError("Not a Twitter/X data export: account.js and tweets.js are missing");
+    }
+
+    const [account] = await readExportFile(zip, accountFile, accountFileSchema);
+    const [profileFile] = matching(exportFiles.profile);
+    const [profile] = profileFile ? await readExportFile(zip, profileFile, profileFileSchema) : [];
+
+    // Keyed by id so a tweet listed in more than one part is stored once
+    const tweets = new Map<string, ParsedTwitterArchive["tweets"][number]>();
+    for (const file of tweetFiles) {
+      for (const tweet of await readExportFile(zip, file, tweetFileSchema)) {
+        tweets.set(tweet.id_str, {
+          tweetId: tweet.id_str,
+          fullText: cleanTweetText(tweet.full_text, tweet.entities.urls),
+          favoriteCount: tweet.favorite_count,
+          retweetCount: tweet.retweet_count,
+          replyToTweetId: tweet.in_reply_to_status_id_str ?? null,
+          replyToUserId: tweet.in_reply_to_user_id_str ?? null,
+          replyToUsername: tweet.in_reply_to_screen_name ?? null,
+          createdAt: tweet.created_at
+        });
+      }
+    }
+
+    const likes: ParsedTwitterArchive["likes"] = [];
+    for (const file of matching(exportFiles.likes)) {
+      for (const like of await readExportFile(zip, file, likeFileSchema)) {
+        likes.push({
+          tweetId: like.tweetId,
+          fullText: like.fullText ? cleanTweetText(like.fullText, []) : null,
+          expandedUrl: like.expandedUrl ?? null
+        });
+      }
+    }
+
+    return {
+      archive: {
+        accountId: account.accountId,
+        username: account.username,
+        displayName: account.accountDisplayName || null,
+        bio: profile?.description?.bio || null,
+        website: profile?.description?.website || null,
+        location: profile?.description?.location || null,
+        avatarMediaUrl: profile?.avatarMediaUrl || null,
+        accountCreatedAt: account.createdAt ?? null,
+        tweetCount: tweets.size,
+        likeCount: likes.length
+      },
+      tweets: Array.from(tweets.values()),
+      likes
+    };
+  } catch (error) {
+    throw toImportError(error);
+  } finally {
+    zip.close();
+  }
+}
+
+/**
+ * Imports a Twitter/X data export into storage, replacing the importer's earlier import of the
+ * same account. The account is then served through the archive client like any hosted one:
+ * to everyone for a command-line import, otherwise only to the account that imported it.
+ * @param importedBy The signed-in account importing it; null for imports from the command line
+ * @throws ArchiveImportError if the zip isn't a readable export
+ */
+export async function importTwitterArchive(
+  storage: IStorage,
+  source: string | Buffer,
+  importedBy: number | null = null
+): Promise<CommunityArchive> {
+  const { archive, tweets, likes } = await readTwitterArchive(source);
+  const saved = await storage.saveCommunityArchive({ ...archive, importedBy, importedAt: new Date() }, tweets, likes);
+  log(`Imported @${saved.username}: ${saved.tweetCount} tweets, ${saved.likeCount} likes`, "archive-import");
+  return saved;
+}
@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MemStorage } from "../storage";
+import { StorageCacheBackend } from "./cache";
+
+describe("StorageCacheBackend", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deletes expired entries as it writes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-01-01T00:00:00Z"));
+    const storage = new MemStorage();
+    const backend = new StorageCacheBackend(storage, 2);
+    await backend.set("short", 1, 1000);
+    await backend.set("long", 2, 60_000);
+
+    vi.setSystemTime(new Date("2024-01-01T00:00:10Z"));
+    expect(await backend.get("short")).toBeUndefined();
+    expect(await storage.getCacheEntry("short")).toBeDefined();
+    await backend.set("next", 3, 1000);
+
+    expect(await storage.getCacheEntry("short")).toBeUndefined();
+    expect(await backend.get("long")).toBe(2);
+    expect(await backend.get("next")).toBe(3);
+  });
+});
@@ -0,0 +1,183 @@
+import { createHash } from "crypto";
+import type { Config } from "../config";
+import type { IStorage } from "../storage";
+import { getRequestContext } from "../context";
+
+export interface CacheBackend {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+}
+
+/**
+ * In-process cache; the oldest entries are evicted once maxEntries is reached
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Cache kept in IStorage, so entries survive restarts and are shared between instances on Postgres.
+ * Expired entries are skipped on read and deleted on the first write and every `pruneEvery` writes
+ * after it, so the table doesn't keep one row for every key ever cached.
+ */
+export class StorageCacheBackend implements CacheBackend {
+  private writes = 0;
+
+  constructor(private storage: IStorage, private pruneEvery: number = 100) {}
+
+  async get(key: string): Promise<unknown | undefined> {
+    const entry = await this.storage.getCacheEntry(key);
+    if (!entry || entry.expiresAt.getTime() <= Date.now()) return undefined;
+    return entry.value;
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    const now = new Date();
+    await this.storage.setCacheEntry({
+      key,
+      value,
+      expiresAt: new Date(now.getTime() + ttlMs),
+      createdAt: now
+    });
+
+    if (this.writes++ % this.pruneEvery === 0) {
+      await this.storage.deleteExpiredCacheEntries(now);
+    }
+  }
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  bypasses: number;
+  hitRate: number;
+}
+
+/**
+ * A namespaced view of a cache backend with hit/miss accounting
+ */
+export class Cache {
+  private hits = 0;
+  private misses = 0;
+  private bypasses = 0;
+
+  constructor(
+    readonly namespace: string,
+    private readonly backend: CacheBackend,
+    private readonly ttlMs: number,
+  ) {}
+
+  /**
+   * Returns the cached value for the key, or undefined when there is none.
+   * Honours the per-request bypass flag by skipping the read.
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    // A TTL of zero disables the cache
+    if (this.ttlMs <= 0) {
+      return undefined;
+    }
+    if (getRequestContext()?.bypassCache) {
+      this.bypasses++;
+      return undefined;
+    }
+
+    const cached = await this.backend.get(`${this.namespace}:${key}`);
+    if (cached === undefined) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return cached as T;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    if (this.ttlMs <= 0) return;
+    await this.backend.set(`${this.namespace}:${key}`, value, this.ttlMs);
+  }
+
+  /**
+   * Returns the cached value for the key, or computes, caches and returns it
+   */
+  async wrap<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const value = await compute();
+    await this.set(key, value);
+    return value;
+  }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      bypasses: this.bypasses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups
+    };
+  }
+}
+
+/**
+ * Stable content hash for cache keys built from structured input
+ */
+export function hashKey(input: unknown): string {
+  return createHash("sha256").update(JSON.stringify(input)).digest("hex");
+}
+
+export interface Caches {
+  backend: Config["cache"]["backend"];
+  // Community Archive responses, keyed by request URL
+  archive: Cache;
+  // Validated structured LLM output, keyed by a hash of provider, model, prompt and generation options
+  llm: Cache;
+}
+
+/**
+ * Builds the archive and LLM caches over one shared backend: in memory, or in storage
+ * when cache.backend is "storage"
+ */
+export function createCaches(settings: Config["cache"], storage: IStorage): Caches {
+  const backend = settings.backend === "storage"
+    ? new StorageCacheBackend(storage)
+    : new MemoryCacheBackend(settings.maxEntries);
+
+  return {
+    backend: settings.backend,
+    archive: new Cache("archive", backend, settings.archiveTtlSeconds * 1000),
+    llm: new Cache("llm", backend, settings.llmTtlSeconds * 1000)
+  };
+}
+
+export function getCacheStats(caches: Caches) {
+  return {
+    backend: caches.backend,
+    archive: caches.archive.stats(),
+    llm: caches.llm.stats()
+  };
+}
@@ -0,0 +1,75 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ValidationError } from "../errors";
+import { Cache, MemoryCacheBackend } from "./cache";
+import { CommunityArchiveAPI } from "./community-archive";
+import { UpstreamClient } from "./upstream";
+
+const tweet = (id: string, createdAt: string, likes: number) => ({
+  tweet_id: id,
+  full_text: `tweet ${id}`,
+  created_at: createdAt,
+  favorite_count: likes,
+  account_id: "42"
+});
+
+const cursorOf = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("CommunityArchiveAPI tweet cursors", () => {
+  let server: Server;
+  let archive: CommunityArchiveAPI;
+  // Query strings of the requests the stub archive received
+  let requests: URLSearchParams[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      requests.push(new URL(req.url!, "http://stub").searchParams);
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify([
+        tweet("12", "2024-01-02T10:00:00+00:00", 5),
+        tweet("11", "2024-01-01T09:30:00+00:00", 3)
+      ]));
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const upstream = new UpstreamClient("archive", {
+      timeoutMs: 1000, maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1, failureThreshold: 100, cooldownMs: 1
+    });
+    archive = new CommunityArchiveAPI(
+      { source: "hosted", apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, apiKey: "test", importMaxMb: 1 },
+      upstream,
+      new Cache("archive", new MemoryCacheBackend(), 0)
+    );
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("continues after the last tweet of the previous page", async () => {
+    const first = await archive.getAccountTweets("42", { order: "popular", limit: 2 });
+    await archive.getAccountTweets("42", { order: "popular", limit: 2, cursor: first.nextCursor });
+
+    const after = 'created_at.lt."2024-01-01T09:30:00.000Z",and(created_at.eq."2024-01-01T09:30:00.000Z",tweet_id.lt.11)';
+    expect(requests[1].get("or")).toBe(`(favorite_count.lt.3,and(favorite_count.eq.3,or(${after})))`);
+  });
+
+  it.each([
+    ["a timestamp that only Date.parse accepts", { createdAt: 'Mon Jan 01 2024 (",tweet_id.gt.0)', id: "1" }],
+    ["a timestamp that isn't in ISO form", { createdAt: "2024-01-01", id: "1" }],
+    ["a fractional like count", { likes: 1.5, createdAt: "2024-01-01T00:00:00.000Z", id: "1" }],
+    ["a like count carrying a filter", { likes: "1)", createdAt: "2024-01-01T00:00:00.000Z", id: "1" }],
+    ["an id that isn't a number", { createdAt: "2024-01-01T00:00:00.000Z", id: "1,tweet_id.gt.0" }]
+  ])("rejects a cursor with %s", async (_name, cursor) => {
+    const error = await archive.getAccountTweets("42", { order: "popular", cursor: cursorOf(cursor) }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("rejects a cursor that isn't JSON", async () => {
+    await expect(archive.getAccountTweets("42", { cursor: "not-a-cursor" })).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -1,6 +1,10 @@
 import { z } from "zod";
+import { cleanHandle } from "@shared/api";
+import type { Config } from "../config";
+import { NotFoundError, ValidationError } from "../errors";
 import { log } from "../utils";
-import { CommunityArchive } from "../../shared/schema";
+import type { Cache } from "./cache";
+import { UpstreamError, type UpstreamClient } from "./upstream";
 
 const TweetSchema = z.object({
   tweet_id: z.string(),
@@ -19,25 +23,367 @@ const TweetSchema = z.object({
 
 export type Tweet = z.infer<typeof TweetSchema>;
 
-class CommunityArchiveAPI {
-  private baseUrl: string;
+const AccountSchema = z.object({
+  account_id: z.string(),
+  username: z.string(),
+  account_display_name: z.string().nullable().optional(),
+  created_at: z.string().nullable().optional(),
+  num_tweets: z.number().nullable().optional(),
+  num_followers: z.number().nullable().optional(),
+  num_following: z.number().nullable().optional(),
+  num_likes: z.number().nullable().optional()
+});
+
+const ProfileSchema = z.object({
+  account_id: z.string(),
+  bio: z.string().nullable().optional(),
+  website: z.string().nullable().optional(),
+  location: z.string().nullable().optional(),
+  avatar_media_url: z.string().nullable().optional()
+});
+
+export type ArchiveProfile = z.infer<typeof ProfileSchema>;
+export type ArchiveAccount = z.infer<typeof AccountSchema> & { profile: ArchiveProfile | null };
+
+/**
+ * Filters for fetching a single account's tweets
+ */
+export interface TweetQuery {
+  since?: Date | string;
+  until?: Date | string;
+  excludeReplies?: boolean;
+  excludeRetweets?: boolean;
+  minLikes?: number;
+  // Only replies to this account
+  replyToUserId?: string;
+  order?: "recent" | "popular";
+  limit?: number;
+  cursor?: string | null;
+}
+
+export interface TweetPage {
+  tweets: Tweet[];
+  nextCursor: string | null;
+}
+
+/**
+ * A chain of tweets linked by replies, oldest first
+ */
+export interface Thread {
+  rootTweetId: string;
+  tweets: Tweet[];
+  // False when an ancestor was missing from the archive (deleted, or by someone who hasn't uploaded)
+  complete: boolean;
+}
+
+/**
+ * A self-thread: consecutive replies by the author to their own tweet, joined into one post
+ */
+export interface SelfThread extends Thread {
+  text: string;
+}
+
+/**
+ * Back-and-forth between two accounts, grouped into separate exchanges (oldest first)
+ */
+export interface Conversation {
+  accounts: [ArchiveAccount, ArchiveAccount];
+  exchanges: Thread[];
+  tweetCount: number;
+}
+
+/**
+ * Thrown when a handle cannot be resolved to an account in the archive
+ */
+export class ArchiveAccountNotFoundError extends NotFoundError {
+  constructor(readonly handle: string) {
+    super(`Could not find @${handle} in the Community Archive`, { handle }, "ARCHIVE_ACCOUNT_NOT_FOUND");
+  }
+}
+
+// Keyset cursor: the sort values and tweet_id of the last tweet on a page
+interface TweetCursor {
+  // Only set when ordering by popularity
+  likes?: number;
+  createdAt: string;
+  id: string;
+}
+
+function encodeCursor(cursor: TweetCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Only the exact form toISOString() produces, which can't carry quotes, commas or parentheses
+function isIsoTimestamp(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  const date = new Date(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString() === value;
+}
+
+// Cursors come back from clients and are spliced into a PostgREST filter, so every field is checked strictly
+function decodeCursor(cursor: string): TweetCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      (parsed.likes === undefined || Number.isSafeInteger(parsed.likes))
+      && isIsoTimestamp(parsed.createdAt)
+      && typeof parsed.id === 'string' && /^\d+$/.test(parsed.id)
+    ) {
+      return { likes: parsed.likes, createdAt: parsed.createdAt, id: parsed.id };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new ValidationError('Invalid tweet cursor', { location: 'query', field: 'cursor' });
+}
+
+/**
+ * Orders tweet ids numerically. Ids are strings of digits, so "9" must sort before "10".
+ */
+export function compareTweetIds(a: string, b: string): number {
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+export { cleanHandle };
+
+export type ArchiveAccountRecord = z.infer<typeof AccountSchema>;
+
+/**
+ * Read access to an archive of tweets. Subclasses answer the basic lookups; threads,
+ * conversations and the other views built from them are shared here.
+ */
+export abstract class ArchiveClient {
+  /**
+   * Resolves a Twitter handle to its archive account (and profile, if uploaded)
+   * @throws ArchiveAccountNotFoundError if the handle is not in the archive
+   */
+  abstract resolveAccount(handle: string): Promise<ArchiveAccount>;
+
+  /**
+   * Fetches one page of an account's tweets
+   * @param accountId The archive account_id
+   * @param query Filters, ordering and the cursor returned by the previous page
+   */
+  abstract getAccountTweets(accountId: string, query?: TweetQuery): Promise<TweetPage>;
+
+  /**
+   * Counts an account's tweets, optionally only those posted since a date
+   */
+  abstract countAccountTweets(accountId: string, since?: Date | string): Promise<number>;
+
+  /**
+   * Fetches a single tweet by id, or null if the archive doesn't have it
+   */
+  abstract getTweet(tweetId: string): Promise<Tweet | null>;
+
+  /**
+   * Fetches tweets by id; ids the archive doesn't have are left out
+   */
+  abstract getTweetsById(tweetIds: string[]): Promise<Tweet[]>;
+
+  /**
+   * Fetches replies anyone in the archive made to an account, newest first
+   */
+  abstract getRepliesToAccount(accountId: string, query?: Pick<TweetQuery, 'since' | 'until' | 'limit'>): Promise<Tweet[]>;
+
+  /**
+   * Looks up accounts by account_id (without profiles); ids not in the archive are left out
+   */
+  abstract getAccountsById(accountIds: string[]): Promise<ArchiveAccountRecord[]>;
+
+  /**
+   * Fetches the direct replies to a tweet that are in the archive, oldest first
+   */
+  abstract getReplies(tweetId: string, limit?: number): Promise<Tweet[]>;
+
+  /**
+   * Iterates over every tweet matching the query, following cursors until exhausted
+   * @param maxTweets Stop after this many tweets have been yielded
+   */
+  async *iterateAccountTweets(accountId: string, query: TweetQuery = {}, maxTweets: number = Infinity): AsyncGenerator<Tweet> {
+    let cursor = query.cursor ?? null;
+    let yielded = 0;
+
+    do {
+      const page = await this.getAccountTweets(accountId, { ...query, cursor });
+      for (const tweet of page.tweets) {
+        if (yielded >= maxTweets) return;
+        yield tweet;
+        yielded++;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  /**
+   * Resolves a handle and fetches one page of its tweets
+   */
+  async getTweetsByHandle(handle: string, query: TweetQuery = {}): Promise<TweetPage & { account: ArchiveAccount }> {
+    const account = await this.resolveAccount(handle);
+    const page = await this.getAccountTweets(account.account_id, query);
+    return { account, ...page };
+  }
+
+  /**
+   * Rebuilds the thread a tweet belongs to: walks up its reply chain to the root, then
+   * follows the author's own replies below it so self-threads come back whole
+   * @param maxTweets Upper bound in each direction, to keep long threads from running away
+   */
+  async getThread(tweetId: string, maxTweets: number = 50): Promise<Thread | null> {
+    const tweet = await this.getTweet(tweetId);
+    if (!tweet) {
+      return null;
+    }
+
+    const ancestors: Tweet[] = [];
+    let complete = true;
+    let current = tweet;
+    while (current.reply_to_tweet_id && ancestors.length < maxTweets) {
+      const parent = await this.getTweet(current.reply_to_tweet_id);
+      if (!parent) {
+        complete = false;
+        break;
+      }
+      ancestors.unshift(parent);
+      current = parent;
+    }
+
+    const descendants: Tweet[] = [];
+    current = tweet;
+    while (descendants.length < maxTweets) {
+      const replies = await this.getReplies(current.tweet_id);
+      const continuation = replies.find(reply => reply.account_id === tweet.account_id);
+      if (!continuation) break;
+      descendants.push(continuation);
+      current = continuation;
+    }
+
+    const tweets = [...ancestors, tweet, ...descendants];
+    return { rootTweetId: tweets[0].tweet_id, tweets, complete };
+  }
+
+  /**
+   * Finds an account's self-threads and joins each into a long-form post, newest first
+   * @param limit How many of the account's self-replies to look through
+   */
+  async getSelfThreads(accountId: string, limit: number = 200): Promise<SelfThread[]> {
+    const { tweets: selfReplies } = await this.getAccountTweets(accountId, {
+      replyToUserId: accountId,
+      order: 'recent',
+      limit
+    });
+
+    const byId = new Map(selfReplies.map(tweet => [tweet.tweet_id, tweet]));
+    const missingParents = selfReplies
+      .map(tweet => tweet.reply_to_tweet_id)
+      .filter((id): id is string => !!id && !byId.has(id));
+    for (const parent of await this.getTweetsById(missingParents)) {
+      if (parent.account_id === accountId) {
+        byId.set(parent.tweet_id, parent);
+      }
+    }
+
+    const children = new Map<string, Tweet[]>();
+    byId.forEach(tweet => {
+      const parentId = tweet.reply_to_tweet_id;
+      if (parentId && byId.has(parentId)) {
+        children.set(parentId, [...(children.get(parentId) ?? []), tweet]);
+      }
+    });
+
+    const threads: SelfThread[] = [];
+    byId.forEach(root => {
+      if (root.reply_to_tweet_id && byId.has(root.reply_to_tweet_id)) return;
+
+      // Follow the earliest continuation at each step; later ones are branches, not the thread
+      const tweets = [root];
+      let next = children.get(root.tweet_id);
+      while (next?.length) {
+        const [first] = [...next].sort((a, b) => a.created_at.localeCompare(b.created_at));
+        tweets.push(first);
+        next = children.get(first.tweet_id);
+      }
+      if (tweets.length < 2) return;
+
+      threads.push({
+        rootTweetId: root.tweet_id,
+        tweets,
+        // The root may itself reply to someone else's tweet we didn't fetch
+        complete: !root.reply_to_tweet_id,
+        text: tweets.map(t => t.full_text.trim()).join('\n\n')
+      });
+    });
+
+    return threads.sort((a, b) => b.tweets[0].created_at.localeCompare(a.tweets[0].created_at));
+  }
+
+  /**
+   * Reconstructs the replies two accounts have exchanged, grouped into exchanges
+   * @param limit How many replies to fetch in each direction
+   * @throws ArchiveAccountNotFoundError if either handle is not in the archive
+   */
+  async getConversation(handleA: string, handleB: string, limit: number = 100): Promise<Conversation> {
+    const [accountA, accountB] = await Promise.all([this.resolveAccount(handleA), this.resolveAccount(handleB)]);
+
+    const [fromA, fromB] = await Promise.all([
+      this.getAccountTweets(accountA.account_id, { replyToUserId: accountB.account_id, order: 'recent', limit }),
+      this.getAccountTweets(accountB.account_id, { replyToUserId: accountA.account_id, order: 'recent', limit })
+    ]);
+
+    const byId = new Map<string, Tweet>();
+    for (const tweet of [...fromA.tweets, ...fromB.tweets]) {
+      byId.set(tweet.tweet_id, tweet);
+    }
 
-  constructor() {
-    const apiUrl = process.env.COMMUNITY_ARCHIVE_API_URL;
-    if (!apiUrl) {
-      throw new Error('COMMUNITY_ARCHIVE_API_URL environment variable is required');
+    // Pull in the tweets that started each exchange
+    const participants = new Set([accountA.account_id, accountB.account_id]);
+    const missingParents = Array.from(byId.values())
+      .map(tweet => tweet.reply_to_tweet_id)
+      .filter((id): id is string => !!id && !byId.has(id));
+    for (const parent of await this.getTweetsById(missingParents)) {
+      if (participants.has(parent.account_id)) {
+        byId.set(parent.tweet_id, parent);
+      }
     }
-    this.baseUrl = apiUrl;
-    log(`Initialized Community Archive API with base URL: ${this.baseUrl}`, 'community-archive');
+
+    // Group tweets by the earliest ancestor we have for them
+    const rootOf = (tweet: Tweet): string => {
+      let current = tweet;
+      const seen = new Set<string>();
+      while (current.reply_to_tweet_id && byId.has(current.reply_to_tweet_id) && !seen.has(current.tweet_id)) {
+        seen.add(current.tweet_id);
+        current = byId.get(current.reply_to_tweet_id)!;
+      }
+      return current.tweet_id;
+    };
+
+    const groups = new Map<string, Tweet[]>();
+    byId.forEach(tweet => {
+      const root = rootOf(tweet);
+      groups.set(root, [...(groups.get(root) ?? []), tweet]);
+    });
+
+    const exchanges: Thread[] = Array.from(groups.entries()).map(([rootTweetId, tweets]) => {
+      const root = byId.get(rootTweetId)!;
+      return {
+        rootTweetId,
+        tweets: tweets.sort((a, b) => a.created_at.localeCompare(b.created_at)),
+        complete: !root.reply_to_tweet_id
+      };
+    });
+
+    return {
+      accounts: [accountA, accountB],
+      exchanges: exchanges.sort((a, b) => b.tweets[0].created_at.localeCompare(a.tweets[0].created_at)),
+      tweetCount: byId.size
+    };
   }
 
-  async getUserProfile(handle: string): Promise<{tweets: Tweet[], topics: string[]}> {
+  async getUserProfile(handle: string): Promise<{account: ArchiveAccount, tweets: Tweet[], topics: string[]}> {
     try {
-      const cleanHandle = handle.replace(/^@+/, '');
-      log(`Fetching profile data for: ${cleanHandle}`, 'community-archive');
+      log(`Fetching profile data for: ${cleanHandle(handle)}`, 'community-archive');
 
-      // Get recent popular tweets
-      const tweets = await this.getRecentPopularTweets(cleanHandle);
+      const { account, tweets } = await this.getTweetsByHandle(handle, { order: 'popular' });
 
       // Extract topics from full-text search data
       const topics = new Set<string>();
@@ -52,87 +398,283 @@ class CommunityArchiveAPI {
       });
 
       return {
+        account,
         tweets,
         topics: Array.from(topics)
       };
     } catch (error) {
-      log(`Error getting user profile: ${error}`, 'community-archive');
+      log(`Error getting user profile: ${error}`, 'community-archive', 'warn');
       throw error;
     }
   }
 
   async getRecentPopularTweets(handle: string, limit: number = 25): Promise<Tweet[]> {
     try {
-      const cleanHandle = handle.replace(/^@+/, '');
-      log(`Attempting to fetch tweets for handle: ${cleanHandle}`, 'community-archive');
-
-      const response = await fetch(`${this.baseUrl}/rest/v1/tweets?select=*&order=favorite_count.desc&limit=${limit}`, {
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'apikey': process.env.SUPABASE_KEY || '',
-          'Authorization': `Bearer ${process.env.SUPABASE_KEY || ''}`
-        }
-      });
+      log(`Attempting to fetch tweets for handle: ${cleanHandle(handle)}`, 'community-archive');
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        log(`API Error: ${response.status} - ${errorText}`, 'community-archive');
-        throw new Error(`Failed to fetch tweets: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      log(`Successfully fetched tweets for ${cleanHandle}`, 'community-archive');
+      const { account, tweets } = await this.getTweetsByHandle(handle, { order: 'popular', limit });
+      log(`Successfully fetched ${tweets.length} tweets for ${account.username}`, 'community-archive');
 
-      const tweets = z.array(TweetSchema).parse(data);
       return tweets;
     } catch (error) {
-      log(`Error in getRecentPopularTweets: ${error}`, 'community-archive');
+      log(`Error in getRecentPopularTweets: ${error}`, 'community-archive', 'warn');
       throw error;
     }
   }
+}
 
-  // Mock data for testing
-  private generateMockTweets(count: number): Tweet[] {
-    return Array.from({ length: count }, (_, i) => ({
-      tweet_id: `mock-${i}`,
-      full_text: `This is a mock tweet ${i}`,
-      created_at: new Date().toISOString(),
-      favorite_count: Math.floor(Math.random() * 100),
-      account_id: "mock-account",
-      retweet_count: Math.floor(Math.random() * 50),
-      reply_to_tweet_id: null,
-      reply_to_user_id: null,
-      reply_to_username: null,
-      fts: null,
-      archive_upload_id: i,
-      updated_at: new Date().toISOString()
-    }));
+/**
+ * Client for the Community Archive's Supabase (PostgREST) API
+ */
+export class CommunityArchiveAPI extends ArchiveClient {
+  private settings?: Config["archive"];
+
+  // Without an API URL every lookup fails
+  constructor(settings: Config["archive"], private upstream: UpstreamClient, private cache: Cache) {
+    super();
+    if (settings.apiUrl) {
+      this.settings = { ...settings, apiUrl: settings.apiUrl.replace(/\/+$/, '') };
+      log(`Initialized Community Archive API with base URL: ${this.settings.apiUrl}`, 'community-archive');
+    }
   }
 
-  async getTweets(userId: string, limit: number = 10) {
-    return this.generateMockTweets(limit);
+  private get baseUrl(): string {
+    if (!this.settings?.apiUrl) {
+      throw new Error('The Community Archive client is not configured');
+    }
+    return this.settings.apiUrl;
   }
 
-  async getArchive(id: string): Promise<CommunityArchive | null> {
-    try {
-      // Implementation would go here
-      return null;
-    } catch (error) {
-      console.error('Error fetching archive:', error);
-      return null;
+  // The archive's public (anon) key, sent both ways Supabase accepts it
+  private authHeaders(): Record<string, string> {
+    const apiKey = this.settings?.apiKey ?? '';
+    return { 'apikey': apiKey, 'Authorization': `Bearer ${apiKey}` };
+  }
+
+  /**
+   * Performs a GET against the archive's PostgREST API and returns the parsed JSON body
+   */
+  private async request(table: string, params: URLSearchParams): Promise<unknown> {
+    const url = `${this.baseUrl}/rest/v1/${table}?${params.toString()}`;
+    return this.cache.wrap(url, () => this.fetchJson(table, url));
+  }
+
+  private async fetchJson(table: string, url: string): Promise<unknown> {
+    const response = await this.upstream.fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        ...this.authHeaders()
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log(`API Error: ${response.status} - ${errorText}`, 'community-archive');
+      throw new UpstreamError('archive', response.status, `Failed to fetch ${table}: ${response.statusText}`);
     }
+
+    return response.json();
   }
 
-  async createArchive(archive: Partial<CommunityArchive>): Promise<CommunityArchive | null> {
-    try {
-      // Implementation would go here
-      return null;
-    } catch (error) {
-      console.error('Error creating archive:', error);
-      return null;
+  /**
+   * Counts the rows matching a PostgREST query without fetching them
+   */
+  private async count(table: string, params: URLSearchParams): Promise<number> {
+    const url = `${this.baseUrl}/rest/v1/${table}?${params.toString()}`;
+    return this.cache.wrap(`count:${url}`, () => this.fetchCount(table, url));
+  }
+
+  private async fetchCount(table: string, url: string): Promise<number> {
+    const response = await this.upstream.fetch(url, {
+      method: 'HEAD',
+      headers: {
+        ...this.authHeaders(),
+        'Prefer': 'count=exact'
+      }
+    });
+
+    if (!response.ok) {
+      log(`API Error: ${response.status} counting ${table}`, 'community-archive');
+      throw new UpstreamError('archive', response.status, `Failed to count ${table}: ${response.statusText}`);
+    }
+
+    // Content-Range looks like "0-24/3573" or "*/0"
+    const total = response.headers.get('content-range')?.split('/')[1];
+    if (!total || total === '*') {
+      throw new Error(`Archive did not return a count for ${table}`);
     }
+    return Number(total);
   }
-}
 
-export const communityArchive = new CommunityArchiveAPI();
\ No newline at end of file
+  /**
+   * Resolves a Twitter handle to its archive account (and profile, if uploaded)
+   * @throws ArchiveAccountNotFoundError if the handle is not in the archive
+   */
+  async resolveAccount(handle: string): Promise<ArchiveAccount> {
+    const username = cleanHandle(handle);
+    // Usernames are matched case-insensitively; escape LIKE wildcards so the match stays exact
+    const pattern = username.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+    const accounts = z.array(AccountSchema).parse(await this.request('account', new URLSearchParams({
+      select: '*',
+      username: `ilike.${pattern}`,
+      limit: '1'
+    })));
+
+    const account = accounts.find(a => a.username.toLowerCase() === username.toLowerCase());
+    if (!account) {
+      throw new ArchiveAccountNotFoundError(username);
+    }
+
+    const profiles = z.array(ProfileSchema).parse(await this.request('profile', new URLSearchParams({
+      select: 'account_id,bio,website,location,avatar_media_url',
+      account_id: `eq.${account.account_id}`,
+      limit: '1'
+    })));
+
+    return { ...account, profile: profiles[0] ?? null };
+  }
+
+  /**
+   * Fetches one page of an account's tweets
+   * @param accountId The archive account_id
+   * @param query Filters, ordering and the cursor returned by the previous page
+   */
+  async getAccountTweets(accountId: string, query: TweetQuery = {}): Promise<TweetPage> {
+    const limit = query.limit ?? 25;
+    const popular = query.order === 'popular';
+
+    // tweet_id is text, so it only breaks ties between tweets posted in the same second. Ids from
+    // the same second have the same number of digits, where text order and numeric order agree.
+    const params = new URLSearchParams({
+      select: '*',
+      account_id: `eq.${accountId}`,
+      order: popular ? 'favorite_count.desc,created_at.desc,tweet_id.desc' : 'created_at.desc,tweet_id.desc',
+      limit: String(limit)
+    });
+
+    if (query.since) {
+      params.append('created_at', `gte.${new Date(query.since).toISOString()}`);
+    }
+    if (query.until) {
+      params.append('created_at', `lt.${new Date(query.until).toISOString()}`);
+    }
+    if (query.excludeReplies) {
+      params.append('reply_to_tweet_id', 'is.null');
+    }
+    if (query.excludeRetweets) {
+      params.append('full_text', 'not.like.RT @*');
+    }
+    if (query.replyToUserId) {
+      params.append('reply_to_user_id', `eq.${query.replyToUserId}`);
+    }
+    if (query.minLikes !== undefined) {
+      params.append('favorite_count', `gte.${query.minLikes}`);
+    }
+    if (query.cursor) {
+      const { likes, createdAt, id } = decodeCursor(query.cursor);
+      const after = `created_at.lt."${createdAt}",and(created_at.eq."${createdAt}",tweet_id.lt.${id})`;
+      params.append('or', popular && likes !== undefined
+        ? `(favorite_count.lt.${likes},and(favorite_count.eq.${likes},or(${after})))`
+        : `(${after})`);
+    }
+
+    const tweets = z.array(TweetSchema).parse(await this.request('tweets', params));
+    const last = tweets[tweets.length - 1];
+    const nextCursor = tweets.length === limit && last
+      ? encodeCursor({
+          ...(popular ? { likes: last.favorite_count } : {}),
+          createdAt: new Date(last.created_at).toISOString(),
+          id: last.tweet_id
+        })
+      : null;
+
+    return { tweets, nextCursor };
+  }
+
+  /**
+   * Counts an account's tweets, optionally only those posted since a date
+   */
+  async countAccountTweets(accountId: string, since?: Date | string): Promise<number> {
+    const params = new URLSearchParams({ select: 'tweet_id', account_id: `eq.${accountId}` });
+    if (since) {
+      params.append('created_at', `gte.${new Date(since).toISOString()}`);
+    }
+    return this.count('tweets', params);
+  }
+
+  /**
+   * Fetches a single tweet by id, or null if the archive doesn't have it
+   */
+  async getTweet(tweetId: string): Promise<Tweet | null> {
+    const tweets = z.array(TweetSchema).parse(await this.request('tweets', new URLSearchParams({
+      select: '*',
+      tweet_id: `eq.${tweetId}`,
+      limit: '1'
+    })));
+    return tweets[0] ?? null;
+  }
+
+  /**
+   * Fetches tweets by id; ids the archive doesn't have are left out
+   */
+  async getTweetsById(tweetIds: string[]): Promise<Tweet[]> {
+    const ids = Array.from(new Set(tweetIds)).filter(id => /^\d+$/.test(id));
+    if (ids.length === 0) {
+      return [];
+    }
+    return z.array(TweetSchema).parse(await this.request('tweets', new URLSearchParams({
+      select: '*',
+      tweet_id: `in.(${ids.join(',')})`,
+      limit: String(ids.length)
+    })));
+  }
+
+  /**
+   * Fetches replies anyone in the archive made to an account, newest first
+   */
+  async getRepliesToAccount(accountId: string, query: Pick<TweetQuery, 'since' | 'until' | 'limit'> = {}): Promise<Tweet[]> {
+    const params = new URLSearchParams({
+      select: '*',
+      reply_to_user_id: `eq.${accountId}`,
+      account_id: `neq.${accountId}`,
+      order: 'created_at.desc',
+      limit: String(query.limit ?? 500)
+    });
+    if (query.since) {
+      params.append('created_at', `gte.${new Date(query.since).toISOString()}`);
+    }
+    if (query.until) {
+      params.append('created_at', `lt.${new Date(query.until).toISOString()}`);
+    }
+    return z.array(TweetSchema).parse(await this.request('tweets', params));
+  }
+
+  /**
+   * Looks up accounts by account_id (without profiles); ids not in the archive are left out
+   */
+  async getAccountsById(accountIds: string[]): Promise<ArchiveAccountRecord[]> {
+    const ids = Array.from(new Set(accountIds)).filter(id => /^\w+$/.test(id));
+    if (ids.length === 0) {
+      return [];
+    }
+    return z.array(AccountSchema).parse(await this.request('account', new URLSearchParams({
+      select: '*',
+      account_id: `in.(${ids.join(',')})`,
+      limit: String(ids.length)
+    })));
+  }
+
+  /**
+   * Fetches the direct replies to a tweet that are in the archive
+   */
+  async getReplies(tweetId: string, limit: number = 100): Promise<Tweet[]> {
+    return z.array(TweetSchema).parse(await this.request('tweets', new URLSearchParams({
+      select: '*',
+      reply_to_tweet_id: `eq.${tweetId}`,
+      order: 'created_at.asc',
+      limit: String(limit)
+    })));
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  insertComparisonSchema,
+  type Comparison,
+  type ComparisonResult,
+  type Insight,
+  type User
+} from "@shared/schema";
+import { NotFoundError } from "../errors";
+import type { IStorage } from "../storage";
+import { describeInsight, type AnalysisService, type ComparisonRequest } from "./analysis";
+import type { Conversation } from "./community-archive";
+import type { FrameService } from "./frames";
+
+/**
+ * Thrown when a comparison can't be made because a user or their insight is missing
+ */
+export class ComparisonUnavailableError extends NotFoundError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details, "COMPARISON_UNAVAILABLE");
+  }
+}
+
+export interface ComparisonPair {
+  userA: User;
+  userB: User;
+  insightA: Insight;
+  insightB: Insight;
+  // What the two have said to each other, if anything
+  conversation: Conversation | null;
+}
+
+// Used when no argument or topic is given
+export const DEFAULT_COMPARISON_ARGUMENT = "Find meaningful connection points";
+
+/**
+ * What to ask the model about a loaded pair
+ */
+export function toComparisonRequest(pair: ComparisonPair, argument: string = DEFAULT_COMPARISON_ARGUMENT): ComparisonRequest {
+  return {
+    argument,
+    a: { handle: pair.userA.twitterHandle, description: describeInsight(pair.insightA) },
+    b: { handle: pair.userB.twitterHandle, description: describeInsight(pair.insightB) },
+    conversation: pair.conversation
+  };
+}
+
+/**
+ * Renders a structured result as readable text, stored alongside it as the explanation
+ */
+export function renderComparison(result: ComparisonResult, handleA: string, handleB: string): string {
+  const list = (items: string[]) => items.length ? items.map(item => `- ${item}`).join("\n") : "- None identified";
+
+  return [
+    `Shared values:\n${list(result.sharedValues)}`,
+    `Points of disagreement:\n${list(result.disagreements.map(d =>
+      `${d.topic}\n  @${handleA}: ${d.positionA}\n  @${handleB}: ${d.positionB}`))}`,
+    `Vocabulary differences:\n${list(result.vocabularyDifferences.map(v =>
+      `${v.concept}: @${handleA} says "${v.termA}", @${handleB} says "${v.termB}"`))}`,
+    `Bridging statement:\n${result.bridgingStatement}`,
+    `Suggested Next Step:\n${result.suggestedNextStep}`
+  ].join("\n\n");
+}
+
+export interface ComparisonDependencies {
+  storage: IStorage;
+  analysis: AnalysisService;
+  frames: FrameService;
+}
+
+/**
+ * Loads comparison pairs and runs and stores their comparisons
+ */
+export function createComparisonService({ storage, analysis, frames }: ComparisonDependencies) {
+  /**
+   * Loads both users of a comparison and their insights
+   * @throws ComparisonUnavailableError if either user or insight is missing
+   */
+  async function loadComparisonPair(userAId: number, userBId: number): Promise<ComparisonPair> {
+    // First get both users
+    const [userA, userB] = await Promise.all([
+      storage.getUser(userAId),
+      storage.getUser(userBId)
+    ]);
+
+    if (!userA || !userB) {
+      throw new ComparisonUnavailableError("One or both users not found");
+    }
+
+    // Get insights after confirming users exist
+    const [insightA, insightB] = await Promise.all([
+      storage.getInsight(userA.id),
+      storage.getInsight(userB.id)
+    ]);
+
+    if (!insightA || !insightB) {
+      throw new ComparisonUnavailableError("Insights not found for one or both users", {
+        userA: { id: userA.id, hasInsight: !!insightA },
+        userB: { id: userB.id, hasInsight: !!insightB }
+      });
+    }
+
+    const conversation = await frames.loadConversation(userA.twitterHandle, userB.twitterHandle);
+
+    return { userA, userB, insightA, insightB, conversation };
+  }
+
+  /**
+   * Stores the result of comparing a pair on an argument
+   */
+  async function saveComparison(
+    pair: ComparisonPair,
+    argument: string,
+    result: ComparisonResult,
+    ownerId: number | null
+  ): Promise<Comparison> {
+    return storage.createComparison(insertComparisonSchema.parse({
+      userAId: pair.userA.id,
+      userBId: pair.userB.id,
+      argumentText: argument,
+      explanation: renderComparison(result, pair.userA.twitterHandle, pair.userB.twitterHandle),
+      result,
+      ownerId,
+      createdAt: new Date()
+    }));
+  }
+
+  /**
+   * Compares two users with insights on an argument or topic and stores the structured result
+   */
+  async function createComparison(
+    userAId: number,
+    userBId: number,
+    argument: string = DEFAULT_COMPARISON_ARGUMENT,
+    ownerId: number | null = null
+  ): Promise<Comparison> {
+    const pair = await loadComparisonPair(userAId, userBId);
+    const result = await analysis.compare(toComparisonRequest(pair, argument));
+    return saveComparison(pair, argument, result, ownerId);
+  }
+
+  return { loadComparisonPair, saveComparison, createComparison };
+}
+
+export type ComparisonService = ReturnType<typeof createComparisonService>;
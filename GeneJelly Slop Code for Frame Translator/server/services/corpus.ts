@@ -0,0 +1,194 @@
+import type { Config } from "../config";
+import { log } from "../utils";
+import type { ArchiveClient, Tweet } from "./community-archive";
+import { normalizeText } from "./frames";
+import { estimateTokens } from "./usage";
+
+export interface CorpusOptions {
+  // Rough upper bound on the tokens the rendered corpus may take up in a prompt
+  tokenBudget: number;
+  // How many equal time periods the account's history is split into
+  buckets: number;
+  // Include the tweet being replied to above each reply
+  replyContext: boolean;
+  // Engagement of a tweet this old counts for half as much as a tweet posted today
+  recencyHalfLifeDays: number;
+}
+
+export interface Corpus {
+  text: string;
+  tweetIds: string[];
+  tokenEstimate: number;
+  // How many tweets were available before deduping and budgeting
+  considered: number;
+}
+
+interface CorpusEntry {
+  tweet: Tweet;
+  score: number;
+  text: string;
+  tokens: number;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeText(text).split(" ").filter(Boolean));
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Drops retweets and tweets that are near-identical to a higher-scored tweet
+ * (same words after stripping links, mentions and case)
+ */
+export function dedupeTweets(tweets: Tweet[], threshold: number = 0.8): Tweet[] {
+  const kept: { tweet: Tweet; words: Set<string> }[] = [];
+
+  for (const tweet of tweets) {
+    if (tweet.full_text.startsWith("RT @")) continue;
+    const words = wordSet(tweet.full_text);
+    if (words.size === 0) continue;
+    if (kept.some(other => similarity(words, other.words) >= threshold)) continue;
+    kept.push({ tweet, words });
+  }
+
+  return kept.map(entry => entry.tweet);
+}
+
+/**
+ * Engagement (likes plus weighted retweets, log-scaled) decayed by age
+ */
+export function scoreTweet(tweet: Tweet, now: number, halfLifeDays: number): number {
+  const engagement = Math.log1p(tweet.favorite_count + 2 * (tweet.retweet_count ?? 0));
+  const ageDays = Math.max(0, (now - new Date(tweet.created_at).getTime()) / 86_400_000);
+  return (1 + engagement) * Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function renderTweet(tweet: Tweet, parent: Tweet | undefined): string {
+  const date = tweet.created_at.slice(0, 10);
+  const text = tweet.full_text.replace(/\s+/g, " ").trim();
+  if (!parent) {
+    return `[${date}] ${text}`;
+  }
+  const parentText = parent.full_text.replace(/\s+/g, " ").trim();
+  const to = tweet.reply_to_username ? `@${tweet.reply_to_username}` : "a tweet";
+  return `[${date}] (replying to ${to}: "${parentText}") ${text}`;
+}
+
+/**
+ * Splits tweets into equal time periods between the oldest and newest tweet,
+ * each sorted best-first
+ */
+function bucketByTime(entries: CorpusEntry[], buckets: number): CorpusEntry[][] {
+  const times = entries.map(entry => new Date(entry.tweet.created_at).getTime());
+  const oldest = Math.min(...times);
+  const span = Math.max(...times) - oldest || 1;
+  const result: CorpusEntry[][] = Array.from({ length: Math.max(1, buckets) }, () => []);
+
+  entries.forEach((entry, i) => {
+    const index = Math.min(result.length - 1, Math.floor(((times[i] - oldest) / span) * result.length));
+    result[index].push(entry);
+  });
+
+  return result.map(bucket => bucket.sort((a, b) => b.score - a.score));
+}
+
+/**
+ * Builds the tweet corpora prompts are grounded in, from the given archive
+ */
+export function createCorpusService(settings: Config["corpus"], archive: ArchiveClient) {
+  const defaults: CorpusOptions = {
+    tokenBudget: settings.tokenBudget,
+    buckets: settings.buckets,
+    replyContext: settings.replyContext,
+    recencyHalfLifeDays: settings.recencyHalfLifeDays
+  };
+
+  /**
+   * Picks the tweets that best represent a person within a token budget: ranks them by
+   * engagement and recency, drops near-duplicates, and takes the best tweet from each
+   * time period in turn so the corpus covers their whole history rather than one busy month.
+   * Replies can carry the tweet they answer (counted against the budget).
+   */
+  async function buildCorpus(tweets: Tweet[], options: CorpusOptions = defaults): Promise<Corpus> {
+    const now = Date.now();
+    const ranked = tweets
+      .map(tweet => ({ tweet, score: scoreTweet(tweet, now, options.recencyHalfLifeDays) }))
+      .sort((a, b) => b.score - a.score);
+    const unique = new Set(dedupeTweets(ranked.map(entry => entry.tweet)));
+
+    const parents = new Map<string, Tweet>();
+    if (options.replyContext) {
+      const parentIds = Array.from(unique)
+        .map(tweet => tweet.reply_to_tweet_id)
+        .filter((id): id is string => !!id);
+      try {
+        for (const parent of await archive.getTweetsById(parentIds)) {
+          parents.set(parent.tweet_id, parent);
+        }
+      } catch (error) {
+        // Replies still stand on their own without their context
+        log(`Could not fetch reply context: ${error}`, 'corpus', 'warn');
+      }
+    }
+
+    const entries: CorpusEntry[] = ranked
+      .filter(entry => unique.has(entry.tweet))
+      .map(entry => {
+        const parent = entry.tweet.reply_to_tweet_id ? parents.get(entry.tweet.reply_to_tweet_id) : undefined;
+        const text = renderTweet(entry.tweet, parent);
+        return { ...entry, text, tokens: estimateTokens(text) + 1 };
+      });
+
+    const buckets = entries.length > 0 ? bucketByTime(entries, options.buckets) : [];
+    const selected: CorpusEntry[] = [];
+    let tokens = 0;
+
+    // Round-robin over time periods; a tweet that doesn't fit is skipped so shorter ones still can
+    while (buckets.some(bucket => bucket.length > 0)) {
+      for (const bucket of buckets) {
+        const entry = bucket.shift();
+        if (entry && tokens + entry.tokens <= options.tokenBudget) {
+          selected.push(entry);
+          tokens += entry.tokens;
+        }
+      }
+    }
+
+    selected.sort((a, b) => a.tweet.created_at.localeCompare(b.tweet.created_at));
+
+    return {
+      text: selected.map(entry => entry.text).join("\n"),
+      tweetIds: selected.map(entry => entry.tweet.tweet_id),
+      tokenEstimate: tokens,
+      considered: tweets.length
+    };
+  }
+
+  /**
+   * Fetches a pool of the account's recent and most-liked tweets to build a corpus from
+   */
+  async function fetchCorpusTweets(handle: string, poolSize: number = settings.poolSize): Promise<Tweet[]> {
+    const account = await archive.resolveAccount(handle);
+    const [recent, popular] = await Promise.all([
+      archive.getAccountTweets(account.account_id, { order: "recent", excludeRetweets: true, limit: poolSize }),
+      archive.getAccountTweets(account.account_id, { order: "popular", excludeRetweets: true, limit: Math.ceil(poolSize / 4) })
+    ]);
+
+    const byId = new Map<string, Tweet>();
+    for (const tweet of [...recent.tweets, ...popular.tweets]) {
+      byId.set(tweet.tweet_id, tweet);
+    }
+    return Array.from(byId.values());
+  }
+
+  return { buildCorpus, fetchCorpusTweets };
+}
+
+export type CorpusService = ReturnType<typeof createCorpusService>;
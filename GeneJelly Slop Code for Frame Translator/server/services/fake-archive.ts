@@ -0,0 +1,63 @@
+import {
+  ArchiveAccountNotFoundError,
+  cleanHandle,
+  type ArchiveAccount,
+  type ArchiveProfile,
+  type Tweet
+} from "./community-archive";
+import { MemoryArchive } from "./memory-archive";
+
+export interface FakeAccountInput {
+  username: string;
+  accountId?: string;
+  displayName?: string;
+  profile?: Partial<Omit<ArchiveProfile, "account_id">>;
+}
+
+export type FakeTweetInput = Partial<Omit<Tweet, "account_id">> & { full_text: string };
+
+/**
+ * In-memory archive for development and tests. Never touches the network.
+ * Seed it with addAccount and addTweet; lookups behave like the real archive's.
+ */
+export class FakeArchive extends MemoryArchive {
+  private nextTweetId = 1_000_000;
+
+  addAccount(input: FakeAccountInput): ArchiveAccount {
+    const accountId = input.accountId ?? String(this.accounts.size + 1);
+    const account: ArchiveAccount = {
+      account_id: accountId,
+      username: cleanHandle(input.username),
+      account_display_name: input.displayName ?? input.username,
+      profile: input.profile ? { account_id: accountId, ...input.profile } : null
+    };
+    this.putAccount(account);
+    return account;
+  }
+
+  /**
+   * Adds a tweet by an account added earlier. Tweet ids count up and, unless given,
+   * each tweet is posted an hour after the previous one.
+   */
+  addTweet(handle: string, input: FakeTweetInput): Tweet {
+    const account = this.findAccount(handle);
+    if (!account) {
+      throw new ArchiveAccountNotFoundError(cleanHandle(handle));
+    }
+
+    const id = this.nextTweetId++;
+    const parent = input.reply_to_tweet_id ? this.tweets.get(input.reply_to_tweet_id) : undefined;
+    const tweet: Tweet = {
+      tweet_id: String(id),
+      created_at: new Date(Date.UTC(2024, 0, 1) + (id - 1_000_000) * 3_600_000).toISOString(),
+      favorite_count: 0,
+      retweet_count: 0,
+      reply_to_user_id: parent?.account_id ?? null,
+      reply_to_username: parent ? this.accounts.get(parent.account_id)?.username ?? null : null,
+      ...input,
+      account_id: account.account_id
+    };
+    this.putTweet(tweet);
+    return tweet;
+  }
+}
@@ -0,0 +1,120 @@
+import type { Insight } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import {
+  cleanHandle,
+  type ArchiveAccount,
+  type ArchiveClient,
+  type Conversation,
+  type Tweet
+} from "./community-archive";
+import type { BridgeAccount, GraphService } from "./graph";
+
+/**
+ * Everything we know about how a person frames things: their stored persona insight
+ * (if one has been generated) and a handful of their own tweets as style exemplars
+ */
+export interface PersonFrame {
+  handle: string;
+  account: ArchiveAccount;
+  insight: Insight | null;
+  exemplars: Tweet[];
+}
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+
+/**
+ * Strips links, mentions, extra whitespace and case so similar tweets compare equal
+ */
+export function normalizeText(text: string): string {
+  return text.replace(URL_PATTERN, "").replace(/@\w+/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Picks the most-liked tweets that actually say something: skips retweets, link-only
+ * and very short tweets, and duplicates of tweets already picked
+ */
+export function selectExemplarTweets(tweets: Tweet[], count: number = 8): Tweet[] {
+  const seen = new Set<string>();
+  const selected: Tweet[] = [];
+
+  const candidates = tweets
+    .filter(tweet => !tweet.full_text.startsWith("RT @"))
+    .sort((a, b) => b.favorite_count - a.favorite_count);
+
+  for (const tweet of candidates) {
+    const normalized = normalizeText(tweet.full_text);
+    if (normalized.length < 30 || seen.has(normalized)) continue;
+
+    seen.add(normalized);
+    selected.push(tweet);
+    if (selected.length >= count) break;
+  }
+
+  return selected;
+}
+
+export interface FrameDependencies {
+  archive: ArchiveClient;
+  storage: IStorage;
+  graph: GraphService;
+}
+
+/**
+ * Loads what prompts need to know about people: their frames and what they share
+ */
+export function createFrameService({ archive, storage, graph }: FrameDependencies) {
+  /**
+   * Builds a person's frame from the archive and storage
+   * @throws ArchiveAccountNotFoundError if the handle is not in the archive
+   */
+  async function buildPersonFrame(handle: string, exemplarCount: number = 8): Promise<PersonFrame> {
+    const { account, tweets } = await archive.getTweetsByHandle(handle, {
+      order: "popular",
+      excludeReplies: true,
+      excludeRetweets: true,
+      // Over-fetch so filtering still leaves enough exemplars
+      limit: exemplarCount * 5
+    });
+
+    const user = await storage.getUserByTwitterHandle(cleanHandle(handle));
+    const insight = user ? await storage.getInsight(user.id) : undefined;
+
+    return {
+      handle: account.username,
+      account,
+      insight: insight ?? null,
+      exemplars: selectExemplarTweets(tweets, exemplarCount)
+    };
+  }
+
+  /**
+   * Loads what two people have said to each other, or null if they never talked (or the
+   * archive couldn't be asked). Prompts use it as context, so failures are not fatal.
+   */
+  async function loadConversation(handleA: string, handleB: string): Promise<Conversation | null> {
+    try {
+      const conversation = await archive.getConversation(handleA, handleB);
+      return conversation.tweetCount > 0 ? conversation : null;
+    } catch (error) {
+      log(`Could not load conversation between @${cleanHandle(handleA)} and @${cleanHandle(handleB)}: ${error}`, 'frames', 'warn');
+      return null;
+    }
+  }
+
+  /**
+   * Loads the accounts two people both interact with, or an empty list if the graph can't be built
+   */
+  async function loadBridgeAccounts(handleA: string, handleB: string, limit: number = 5): Promise<BridgeAccount[]> {
+    try {
+      return await graph.findBridgeAccounts(handleA, handleB, { limit });
+    } catch (error) {
+      log(`Could not find bridge accounts between @${cleanHandle(handleA)} and @${cleanHandle(handleB)}: ${error}`, 'frames', 'warn');
+      return [];
+    }
+  }
+
+  return { buildPersonFrame, loadConversation, loadBridgeAccounts };
+}
+
+export type FrameService = ReturnType<typeof createFrameService>;
@@ -0,0 +1,304 @@
+import type { Config } from "../config";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import { cleanHandle, type ArchiveClient, type Tweet } from "./community-archive";
+
+// A reply is a stronger signal of a relationship than a passing mention
+const REPLY_WEIGHT = 2;
+const MENTION_WEIGHT = 1;
+
+export interface GraphNode {
+  // Null for accounts that are mentioned but haven't uploaded to the archive
+  accountId: string | null;
+  username: string;
+}
+
+/**
+ * Interactions from one account to another within the graph's time window
+ */
+export interface GraphEdge {
+  source: string;
+  target: string;
+  replies: number;
+  mentions: number;
+  weight: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface GraphWindow {
+  since?: Date;
+  until?: Date;
+}
+
+export interface GraphOptions extends GraphWindow {
+  // Keep only the strongest neighbours
+  limit?: number;
+  minWeight?: number;
+}
+
+/**
+ * An account and the accounts it interacts with. Nodes and edges are keyed by lowercase username.
+ */
+export interface RelationshipGraph {
+  center: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  since: string | null;
+  until: string | null;
+  tweetsScanned: number;
+}
+
+export interface Neighbour extends GraphNode {
+  outgoing: number;
+  incoming: number;
+  weight: number;
+}
+
+export interface ComparisonSuggestion {
+  handle: string;
+  neighbour: Neighbour;
+  // Both people already have a user record (and so can be compared once insights exist)
+  userIds: [number, number] | null;
+  hasInsights: boolean;
+}
+
+export interface BridgeAccount extends GraphNode {
+  weightA: number;
+  weightB: number;
+  score: number;
+}
+
+const MENTION_PATTERN = /(?:^|[^\w@])@(\w{1,15})/g;
+const LEADING_MENTIONS = /^(?:@\w{1,15}\s+)+/;
+
+/**
+ * Usernames a tweet mentions in its body. The @handles a reply starts with only address
+ * the conversation, so they count as the reply rather than as mentions.
+ */
+export function extractMentions(tweet: Tweet): string[] {
+  const text = tweet.reply_to_tweet_id ? tweet.full_text.replace(LEADING_MENTIONS, "") : tweet.full_text;
+  const mentions = new Set<string>();
+  for (const match of Array.from(text.matchAll(MENTION_PATTERN))) {
+    mentions.add(match[1]);
+  }
+  return Array.from(mentions);
+}
+
+class GraphBuilder {
+  private nodes = new Map<string, GraphNode>();
+  private edges = new Map<string, GraphEdge>();
+
+  node(username: string, accountId: string | null = null): string {
+    const key = username.toLowerCase();
+    const existing = this.nodes.get(key);
+    if (!existing) {
+      this.nodes.set(key, { accountId, username });
+    } else if (!existing.accountId && accountId) {
+      existing.accountId = accountId;
+    }
+    return key;
+  }
+
+  interaction(source: string, target: string, kind: "reply" | "mention", at: string) {
+    if (source === target) return;
+    const id = `${source}\u0000${target}`;
+    const edge = this.edges.get(id) ?? { source, target, replies: 0, mentions: 0, weight: 0, firstSeen: at, lastSeen: at };
+
+    if (kind === "reply") {
+      edge.replies++;
+      edge.weight += REPLY_WEIGHT;
+    } else {
+      edge.mentions++;
+      edge.weight += MENTION_WEIGHT;
+    }
+    if (at < edge.firstSeen) edge.firstSeen = at;
+    if (at > edge.lastSeen) edge.lastSeen = at;
+    this.edges.set(id, edge);
+  }
+
+  build(center: string, options: GraphOptions, tweetsScanned: number): RelationshipGraph {
+    const minWeight = options.minWeight ?? 0;
+    const totals = new Map<string, number>();
+    this.edges.forEach(edge => {
+      const other = edge.source === center ? edge.target : edge.source;
+      totals.set(other, (totals.get(other) ?? 0) + edge.weight);
+    });
+
+    const neighbours = Array.from(totals.entries())
+      .filter(([, weight]) => weight >= minWeight)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, options.limit ?? Infinity)
+      .map(([key]) => key);
+    const kept = new Set([center, ...neighbours]);
+
+    return {
+      center,
+      nodes: Array.from(kept).map(key => this.nodes.get(key)!),
+      edges: Array.from(this.edges.values())
+        .filter(edge => kept.has(edge.source) && kept.has(edge.target))
+        .sort((a, b) => b.weight - a.weight),
+      since: options.since?.toISOString() ?? null,
+      until: options.until?.toISOString() ?? null,
+      tweetsScanned
+    };
+  }
+}
+
+/**
+ * The center's neighbours with their interaction weight in each direction, strongest first
+ */
+export function listNeighbours(graph: RelationshipGraph): Neighbour[] {
+  const nodes = new Map(graph.nodes.map(node => [node.username.toLowerCase(), node]));
+
+  return graph.nodes
+    .filter(node => node.username.toLowerCase() !== graph.center)
+    .map(node => {
+      const key = node.username.toLowerCase();
+      const outgoing = graph.edges.find(e => e.source === graph.center && e.target === key)?.weight ?? 0;
+      const incoming = graph.edges.find(e => e.source === key && e.target === graph.center)?.weight ?? 0;
+      return { ...nodes.get(key)!, outgoing, incoming, weight: outgoing + incoming };
+    })
+    .sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Relationship graphs built from the archive's replies and mentions
+ */
+export function createGraphService(settings: Config["graph"], { archive, storage }: { archive: ArchiveClient; storage: IStorage }) {
+  /**
+   * Builds the graph around one account from the replies and mentions in its tweets and the
+   * replies other archive accounts sent it. Mentions of the account by others aren't included,
+   * since the archive can't look those up efficiently.
+   * @throws ArchiveAccountNotFoundError if the handle is not in the archive
+   */
+  async function buildNeighbourhood(handle: string, options: GraphOptions = {}): Promise<RelationshipGraph> {
+    const { maxTweets, maxIncoming } = settings;
+    const account = await archive.resolveAccount(handle);
+    const builder = new GraphBuilder();
+    const center = builder.node(account.username, account.account_id);
+    let scanned = 0;
+
+    for await (const tweet of archive.iterateAccountTweets(account.account_id, {
+      since: options.since,
+      until: options.until,
+      excludeRetweets: true,
+      order: "recent",
+      limit: 500
+    }, maxTweets)) {
+      scanned++;
+      if (tweet.reply_to_username && tweet.reply_to_user_id !== account.account_id) {
+        const target = builder.node(tweet.reply_to_username, tweet.reply_to_user_id ?? null);
+        builder.interaction(center, target, "reply", tweet.created_at);
+      }
+      for (const username of extractMentions(tweet)) {
+        builder.interaction(center, builder.node(username), "mention", tweet.created_at);
+      }
+    }
+
+    const incoming = await archive.getRepliesToAccount(account.account_id, {
+      since: options.since,
+      until: options.until,
+      limit: maxIncoming
+    });
+    scanned += incoming.length;
+
+    const repliers = await archive.getAccountsById(incoming.map(tweet => tweet.account_id));
+    const usernames = new Map(repliers.map(replier => [replier.account_id, replier.username]));
+    for (const tweet of incoming) {
+      const username = usernames.get(tweet.account_id);
+      if (!username) continue;
+      builder.interaction(builder.node(username, tweet.account_id), center, "reply", tweet.created_at);
+    }
+
+    log(`Built graph for @${account.username} from ${scanned} tweets`, 'graph');
+    return builder.build(center, options, scanned);
+  }
+
+  /**
+   * Suggests people to compare someone with: accounts they talk with in both directions,
+   * preferring those that already have a user record and insight
+   */
+  async function suggestComparisonPairs(handle: string, options: GraphOptions = {}): Promise<ComparisonSuggestion[]> {
+    const graph = await buildNeighbourhood(handle, options);
+    const neighbours = listNeighbours(graph).filter(n => n.outgoing > 0 && n.incoming > 0);
+    const user = await storage.getUserByTwitterHandle(cleanHandle(handle));
+    const userInsight = user ? await storage.getInsight(user.id) : undefined;
+
+    const suggestions = await Promise.all(neighbours.map(async (neighbour): Promise<ComparisonSuggestion> => {
+      const other = await storage.getUserByTwitterHandle(neighbour.username);
+      const otherInsight = other ? await storage.getInsight(other.id) : undefined;
+      return {
+        handle: graph.nodes[0].username,
+        neighbour,
+        userIds: user && other ? [user.id, other.id] : null,
+        hasInsights: !!userInsight && !!otherInsight
+      };
+    }));
+
+    // Stable sort keeps the weight order within each group
+    return suggestions.sort((a, b) => Number(b.hasInsights) - Number(a.hasInsights));
+  }
+
+  /**
+   * Accounts both people interact with, ranked by the weaker of the two relationships.
+   * A translation can lean on them as common ground the two already share.
+   */
+  async function findBridgeAccounts(handleA: string, handleB: string, options: GraphOptions = {}): Promise<BridgeAccount[]> {
+    const window = { since: options.since, until: options.until };
+    const [graphA, graphB] = await Promise.all([buildNeighbourhood(handleA, window), buildNeighbourhood(handleB, window)]);
+    const weightsB = new Map(listNeighbours(graphB).map(n => [n.username.toLowerCase(), n.weight]));
+
+    return listNeighbours(graphA)
+      .filter(n => n.username.toLowerCase() !== graphB.center && weightsB.has(n.username.toLowerCase()))
+      .map(({ outgoing, incoming, weight, ...node }) => {
+        const weightB = weightsB.get(node.username.toLowerCase())!;
+        return { ...node, weightA: weight, weightB, score: Math.min(weight, weightB) };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit ?? 10);
+  }
+
+  return { buildNeighbourhood, suggestComparisonPairs, findBridgeAccounts };
+}
+
+export type GraphService = ReturnType<typeof createGraphService>;
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Serialises a graph as GraphML for tools like Gephi or Cytoscape
+ */
+export function toGraphML(graph: RelationshipGraph): string {
+  const nodes = graph.nodes.map(node => {
+    const key = node.username.toLowerCase();
+    return `    <node id="${escapeXml(key)}">
+      <data key="username">${escapeXml(node.username)}</data>${node.accountId ? `
+      <data key="accountId">${escapeXml(node.accountId)}</data>` : ""}
+    </node>`;
+  });
+  const edges = graph.edges.map((edge, i) => `    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">
+      <data key="weight">${edge.weight}</data>
+      <data key="replies">${edge.replies}</data>
+      <data key="mentions">${edge.mentions}</data>
+      <data key="firstSeen">${escapeXml(edge.firstSeen)}</data>
+      <data key="lastSeen">${escapeXml(edge.lastSeen)}</data>
+    </edge>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="username" for="node" attr.name="username" attr.type="string"/>
+  <key id="accountId" for="node" attr.name="accountId" attr.type="string"/>
+  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>
+  <key id="replies" for="edge" attr.name="replies" attr.type="int"/>
+  <key id="mentions" for="edge" attr.name="mentions" attr.type="int"/>
+  <key id="firstSeen" for="edge" attr.name="firstSeen" attr.type="string"/>
+  <key id="lastSeen" for="edge" attr.name="lastSeen" attr.type="string"/>
+  <graph id="${escapeXml(graph.center)}" edgedefault="directed">
+${[...nodes, ...edges].join("\n")}
+  </graph>
+</graphml>
+`;
+}
@@ -0,0 +1,67 @@
+import type { Config } from "../config";
+import { createStorage, type IStorage } from "../storage";
+import { createAnalysisService } from "./analysis";
+import { createCaches } from "./cache";
+import type { ArchiveClient } from "./community-archive";
+import { createComparisonService } from "./comparisons";
+import { createCorpusService } from "./corpus";
+import { createFrameService } from "./frames";
+import { createGraphService } from "./graph";
+import { createInsightService } from "./insights";
+import { createJobService } from "./jobs";
+import { createLLMService, type LLMProvider, type ProviderName } from "./llm";
+import { createArchiveClient } from "./local-archive";
+import { createRoomService } from "./rooms";
+import { Upstreams } from "./upstream";
+import { createUsageService } from "./usage";
+
+export interface ServiceOptions {
+  config: Config;
+  // Used instead of the storage, hosted archive and LLM providers the config would pick.
+  // Imported archives are still layered over an injected archive unless the source is hosted.
+  storage?: IStorage;
+  archive?: ArchiveClient;
+  llmProviders?: Partial<Record<ProviderName, LLMProvider>>;
+}
+
+/**
+ * Builds every service for one app from its config. Nothing is shared between two calls,
+ * so apps built side by side (e.g. in parallel tests) keep their own storage, caches,
+ * circuit breakers and job queue. Storage goes first: the cache can be kept in it.
+ */
+export function createServices({ config, storage = createStorage(config.database), archive: hosted, llmProviders }: ServiceOptions) {
+  const caches = createCaches(config.cache, storage);
+  const upstreams = new Upstreams(config.upstream);
+  const usage = createUsageService(config.usage, storage);
+  const llm = createLLMService(config.llm, { upstreams, usage, cache: caches.llm, providers: llmProviders });
+  const archive = createArchiveClient(config.archive, { storage, upstreams, caches, hosted });
+
+  const analysis = createAnalysisService(llm);
+  const corpus = createCorpusService(config.corpus, archive);
+  const graph = createGraphService(config.graph, { archive, storage });
+  const frames = createFrameService({ archive, storage, graph });
+  const insights = createInsightService(config.insights, { storage, archive, analysis, corpus });
+  const comparisons = createComparisonService({ storage, analysis, frames });
+  const rooms = createRoomService({ storage, analysis });
+  const jobs = createJobService(config.jobs, { storage, insights, comparisons, rooms });
+
+  return {
+    config,
+    storage,
+    caches,
+    upstreams,
+    usage,
+    llm,
+    archive,
+    analysis,
+    corpus,
+    graph,
+    frames,
+    insights,
+    comparisons,
+    rooms,
+    jobs
+  };
+}
+
+export type Services = ReturnType<typeof createServices>;
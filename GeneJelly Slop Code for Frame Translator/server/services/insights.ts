@@ -0,0 +1,190 @@
+import type { Insight, InsightVersion, User } from "@shared/schema";
+import type { Config } from "../config";
+import { getRequestContext, runWithContext } from "../context";
+import { AppError } from "../errors";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import type { AnalysisService } from "./analysis";
+import type { ArchiveClient } from "./community-archive";
+import type { CorpusService } from "./corpus";
+
+/**
+ * Thrown when the archive has no tweets to analyse for a user
+ */
+export class NoTweetsError extends AppError {
+  constructor(readonly twitterHandle: string) {
+    super(400, "NO_TWEETS", `No tweets available to analyse for @${twitterHandle}`, { twitterHandle });
+  }
+}
+
+export interface InsightStaleness {
+  stale: boolean;
+  reasons: ("age" | "new-tweets")[];
+  ageHours: number;
+  // Null when the archive could not be asked
+  newTweets: number | null;
+}
+
+/**
+ * Runs fn as shared work: insights are seen by every account, so they are built only from
+ * archives every account can read, never from the signed-in account's private imports
+ */
+function asShared<T>(fn: () => Promise<T>): Promise<T> {
+  const context = getRequestContext();
+  return context ? runWithContext({ ...context, shared: true }, fn) : fn();
+}
+
+export interface InsightDependencies {
+  storage: IStorage;
+  archive: ArchiveClient;
+  analysis: AnalysisService;
+  corpus: CorpusService;
+}
+
+/**
+ * Generates, stores and refreshes persona insights
+ */
+export function createInsightService(settings: Config["insights"], { storage, archive, analysis, corpus: corpora }: InsightDependencies) {
+  // Generations in progress by user id, so concurrent requests for one user share a single run
+  const inFlight = new Map<number, Promise<Insight>>();
+
+  /**
+   * An insight is stale once it is older than insights.maxAgeHours, or once the person
+   * has posted insights.newTweetThreshold tweets since it was generated
+   */
+  function getInsightStaleness(insight: Insight, twitterHandle: string): Promise<InsightStaleness> {
+    return asShared(() => checkStaleness(insight, twitterHandle));
+  }
+
+  async function checkStaleness(insight: Insight, twitterHandle: string): Promise<InsightStaleness> {
+    const { maxAgeHours, newTweetThreshold } = settings;
+    const ageHours = (Date.now() - insight.lastUpdated.getTime()) / 3_600_000;
+
+    if (ageHours >= maxAgeHours) {
+      return { stale: true, reasons: ["age"], ageHours, newTweets: null };
+    }
+
+    try {
+      const account = await archive.resolveAccount(twitterHandle);
+      const newTweets = await archive.countAccountTweets(account.account_id, insight.lastUpdated);
+      const stale = newTweets >= newTweetThreshold;
+      return { stale, reasons: stale ? ["new-tweets"] : [], ageHours, newTweets };
+    } catch (error) {
+      // A fresh-by-age insight is still usable when the archive can't be reached
+      log(`Could not count new tweets for @${twitterHandle}: ${error}`, 'insights', 'warn');
+      return { stale: false, reasons: [], ageHours, newTweets: null };
+    }
+  }
+
+  /**
+   * Analyses the user's tweets and stores the result as a new version of their insight.
+   * A call made while the user's insight is already being generated waits for that run instead.
+   * @throws NoTweetsError if the archive has nothing to analyse
+   */
+  function generateInsight(user: User): Promise<Insight> {
+    let pending = inFlight.get(user.id);
+    if (!pending) {
+      pending = asShared(() => analyseAndStore(user)).finally(() => inFlight.delete(user.id));
+      inFlight.set(user.id, pending);
+    }
+    return pending;
+  }
+
+  async function analyseAndStore(user: User): Promise<Insight> {
+    const tweets = await corpora.fetchCorpusTweets(user.twitterHandle);
+    const corpus = await corpora.buildCorpus(tweets);
+
+    if (!corpus.text.trim()) {
+      throw new NoTweetsError(user.twitterHandle);
+    }
+
+    log(`Built corpus for @${user.twitterHandle}: ${corpus.tweetIds.length}/${corpus.considered} tweets, ~${corpus.tokenEstimate} tokens`, 'insights');
+    const existing = await storage.getInsight(user.id);
+    // A new version has to come from the model, not from the answer cached for the previous one
+    const analysed = await analysis.generateInsights(corpus.text, { cache: !existing });
+    const result = { ...analysed, sourceTweetIds: corpus.tweetIds };
+    const now = new Date();
+
+    const insight = existing
+      ? await storage.updateInsight(existing.id, { ...result, version: existing.version + 1, lastUpdated: now })
+      : await storage.createInsight({ userId: user.id, ...result, version: 1, lastUpdated: now });
+
+    await storage.createInsightVersion({
+      insightId: insight.id,
+      userId: user.id,
+      version: insight.version,
+      ...result,
+      createdAt: now
+    });
+
+    log(`Stored insight v${insight.version} for @${user.twitterHandle}`, 'insights');
+    return insight;
+  }
+
+  /**
+   * Returns the user's insight, generating it if missing and regenerating it if stale
+   */
+  async function getFreshInsight(user: User): Promise<{ insight: Insight; staleness: InsightStaleness }> {
+    const existing = await storage.getInsight(user.id);
+
+    if (existing) {
+      const staleness = await getInsightStaleness(existing, user.twitterHandle);
+      if (!staleness.stale) {
+        return { insight: existing, staleness };
+      }
+      log(`Insight for @${user.twitterHandle} is stale (${staleness.reasons.join(", ")}), regenerating`, 'insights');
+    }
+
+    const insight = await generateInsight(user);
+    return { insight, staleness: { stale: false, reasons: [], ageHours: 0, newTweets: 0 } };
+  }
+
+  return { getInsightStaleness, generateInsight, getFreshInsight };
+}
+
+export type InsightService = ReturnType<typeof createInsightService>;
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface InsightDiff {
+  from: number;
+  to: number;
+  description: { from: string; to: string } | null;
+  writingStyle: { from: string; to: string } | null;
+  lifeExperiences: ListDiff;
+  concepts: ListDiff;
+  subcultures: ListDiff;
+}
+
+function diffLists(from: string[], to: string[]): ListDiff {
+  const key = (item: string) => item.trim().toLowerCase();
+  const fromKeys = new Set(from.map(key));
+  const toKeys = new Set(to.map(key));
+
+  return {
+    added: to.filter(item => !fromKeys.has(key(item))),
+    removed: from.filter(item => !toKeys.has(key(item)))
+  };
+}
+
+function diffText(from: string, to: string): { from: string; to: string } | null {
+  return from === to ? null : { from, to };
+}
+
+/**
+ * Describes how a person's profile changed between two insight versions
+ */
+export function diffInsightVersions(from: InsightVersion, to: InsightVersion): InsightDiff {
+  return {
+    from: from.version,
+    to: to.version,
+    description: diffText(from.description, to.description),
+    writingStyle: diffText(from.writingStyle, to.writingStyle),
+    lifeExperiences: diffLists(from.lifeExperiences, to.lifeExperiences),
+    concepts: diffLists(from.concepts, to.concepts),
+    subcultures: diffLists(from.subcultures, to.subcultures)
+  };
+}
@@ -0,0 +1,279 @@
+import { z } from "zod";
+import type { Comparison, Insight, Job, Room } from "@shared/schema";
+import {
+  comparisonRequestSchema,
+  handleSchema,
+  jobTypes,
+  roomRequestSchema,
+  type ComparisonRequestBody,
+  type JobType,
+  type RoomRequest
+} from "@shared/api";
+import type { Config } from "../config";
+import { NotFoundError, validate } from "../errors";
+import { runWithContext } from "../context";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import type { ComparisonService } from "./comparisons";
+import { hashKey } from "./cache";
+import type { InsightService } from "./insights";
+import type { RoomService } from "./rooms";
+
+const handlePayload = z.object({ handle: handleSchema });
+
+interface JobDefinition<P, R> {
+  payload: z.ZodType<P, z.ZodTypeDef, unknown>;
+  // Shared jobs (insights) have no owner, so any account can follow one another account started
+  shared?: boolean;
+  // Jobs with the same key are deduplicated while one is queued or running
+  dedupeKey(payload: P): string;
+  // ownerId is the account that enqueued the job, or null for shared jobs
+  run(payload: P, ownerId: number | null): Promise<R>;
+}
+
+// The parsed payload each job type takes...
+export interface JobPayloads {
+  "insight.create": z.infer<typeof handlePayload>;
+  "insight.refresh": z.infer<typeof handlePayload>;
+  "comparison.create": ComparisonRequestBody;
+  "room.create": RoomRequest;
+}
+
+// ...and what it stores as its result
+export interface JobResults {
+  "insight.create": Insight;
+  "insight.refresh": Insight;
+  "comparison.create": Comparison;
+  "room.create": Room;
+}
+
+function defineJob<P, R>(definition: JobDefinition<P, R>): JobDefinition<P, R> {
+  return definition;
+}
+
+type JobDefinitions = { [K in JobType]: JobDefinition<JobPayloads[K], JobResults[K]> };
+
+export interface JobDependencies {
+  storage: IStorage;
+  insights: InsightService;
+  comparisons: ComparisonService;
+  rooms: RoomService;
+}
+
+/**
+ * Every job type the worker can run: how to validate its payload, how to dedupe it and how to run it
+ */
+function createJobDefinitions({ storage, insights, comparisons, rooms }: JobDependencies): JobDefinitions {
+  /**
+   * @throws NotFoundError if the user is missing, which isn't worth retrying
+   */
+  async function requireUser(handle: string) {
+    const user = await storage.getUserByTwitterHandle(handle);
+    if (!user) {
+      throw new NotFoundError(`User not found: @${handle}`);
+    }
+    return user;
+  }
+
+  return {
+    // Returns the current insight if it is still fresh, otherwise generates a new version
+    "insight.create": defineJob({
+      payload: handlePayload,
+      shared: true,
+      dedupeKey: (p) => `insight:${p.handle.toLowerCase()}`,
+      run: async (p) => (await insights.getFreshInsight(await requireUser(p.handle))).insight
+    }),
+    // Shares its key with insight.create so a handle is only ever analysed once at a time
+    "insight.refresh": defineJob({
+      payload: handlePayload,
+      shared: true,
+      dedupeKey: (p) => `insight:${p.handle.toLowerCase()}`,
+      run: async (p) => insights.generateInsight(await requireUser(p.handle))
+    }),
+    "comparison.create": defineJob({
+      payload: comparisonRequestSchema,
+      dedupeKey: (p) => `comparison:${Math.min(p.userAId, p.userBId)}:${Math.max(p.userAId, p.userBId)}:${hashKey(p.argument ?? "")}`,
+      run: async (p, ownerId) => comparisons.createComparison(p.userAId, p.userBId, p.argument, ownerId)
+    }),
+    "room.create": defineJob({
+      payload: roomRequestSchema,
+      dedupeKey: (p) => `room:${hashKey([p.handles.map(h => h.toLowerCase()).sort(), p.question])}`,
+      run: async (p, ownerId) => rooms.createRoomAnalysis(p, ownerId)
+    })
+  };
+}
+
+export { jobTypes, type JobType };
+
+interface JobContext {
+  settings: Config["jobs"];
+  storage: IStorage;
+  definitions: JobDefinitions;
+}
+
+export function isJobType(type: string): type is JobType {
+  return (jobTypes as readonly string[]).includes(type);
+}
+
+/**
+ * Queues a job for an account, or returns the already-active job for the same work
+ * @throws ValidationError if the payload is invalid for the job type
+ */
+async function enqueueJob<K extends JobType>(
+  { settings, storage, definitions }: JobContext,
+  type: K,
+  payload: unknown,
+  ownerId: number
+): Promise<{ job: Job; deduplicated: boolean }> {
+  const definition: JobDefinition<JobPayloads[K], JobResults[K]> = definitions[type];
+  const parsed = validate(definition.payload, payload, "body");
+  const owner = definition.shared ? null : ownerId;
+  // Owned work is only deduplicated against the same account's jobs
+  const dedupeKey = owner === null ? definition.dedupeKey(parsed) : `${owner}:${definition.dedupeKey(parsed)}`;
+
+  const active = await storage.findActiveJob(dedupeKey);
+  if (active) {
+    return { job: active, deduplicated: true };
+  }
+
+  const now = new Date();
+  const job = await storage.createJob({
+    type,
+    dedupeKey,
+    payload: parsed,
+    ownerId: owner,
+    enqueuedBy: ownerId,
+    maxAttempts: settings.maxAttempts,
+    runAt: now,
+    createdAt: now,
+    updatedAt: now
+  });
+  log(`Enqueued job ${job.id} (${type})`, 'jobs');
+  return { job, deduplicated: false };
+}
+
+/**
+ * Exponential backoff with jitter: ~2s, 4s, 8s... capped at five minutes
+ */
+function retryDelayMs(settings: Config["jobs"], attempt: number): number {
+  const delay = Math.min(settings.retryBaseMs * 2 ** (attempt - 1), 5 * 60_000);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  // Client errors (missing user, no tweets, bad input) won't succeed on a retry
+  return !(typeof status === "number" && status >= 400 && status < 500);
+}
+
+// Keeps the payload and result types of one job type together, which indexing by a union can't
+function runDefinition<K extends JobType>(definitions: JobDefinitions, type: K, payload: unknown, ownerId: number | null): Promise<JobResults[K]> {
+  const definition: JobDefinition<JobPayloads[K], JobResults[K]> = definitions[type];
+  return definition.run(definition.payload.parse(payload), ownerId);
+}
+
+/**
+ * Polls storage for due jobs and runs them one at a time in this process
+ */
+export class JobWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private context: JobContext) {}
+
+  /**
+   * Recovers jobs a previous worker left running, then starts polling
+   */
+  start(): void {
+    if (this.timer) return;
+    const interval = this.context.settings.pollIntervalMs;
+    this.timer = setInterval(() => void this.drain(), interval);
+    log(`Job worker polling every ${interval}ms`, 'jobs');
+    void this.recoverStaleJobs();
+  }
+
+  /**
+   * Requeues (or fails, once out of attempts) jobs that have been running for longer than
+   * jobs.staleAfterMs, so a crash doesn't leave them, and everything deduplicated onto them, stuck
+   */
+  async recoverStaleJobs(): Promise<Job[]> {
+    const { settings, storage } = this.context;
+    try {
+      const now = new Date();
+      const recovered = await storage.recoverStaleJobs(new Date(now.getTime() - settings.staleAfterMs), now);
+      for (const job of recovered) {
+        log(`Job ${job.id} (${job.type}) was left running by a stopped worker, marked ${job.status}`, 'jobs', 'warn');
+      }
+      return recovered;
+    } catch (error) {
+      log(`Could not recover stale jobs: ${error}`, 'jobs', 'error');
+      return [];
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Runs due jobs until none are left. Overlapping calls are ignored.
+   */
+  async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let job: Job | undefined;
+      while ((job = await this.context.storage.claimNextJob(new Date()))) {
+        await this.runJob(job);
+      }
+    } catch (error) {
+      log(`Job worker error: ${error}`, 'jobs');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const { settings, storage, definitions } = this.context;
+    const { type } = job;
+    if (!isJobType(type)) {
+      await storage.updateJob(job.id, { status: "failed", error: `Unknown job type: ${type}` });
+      return;
+    }
+
+    try {
+      // Usage is charged to whoever enqueued the job, including shared jobs
+      const accountId = job.enqueuedBy ?? job.ownerId;
+      const result = await runWithContext({ requestId: `job-${job.id}`, bypassCache: false, accountId }, () =>
+        runDefinition(definitions, type, job.payload, job.ownerId)
+      );
+      await storage.updateJob(job.id, { status: "succeeded", result, error: null });
+      log(`Job ${job.id} (${job.type}) succeeded on attempt ${job.attempts}`, 'jobs');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (isRetryable(error) && job.attempts < job.maxAttempts) {
+        const runAt = new Date(Date.now() + retryDelayMs(settings, job.attempts));
+        await storage.updateJob(job.id, { status: "queued", error: message, runAt });
+        log(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}, retrying at ${runAt.toISOString()}: ${message}`, 'jobs');
+      } else {
+        await storage.updateJob(job.id, { status: "failed", error: message });
+        log(`Job ${job.id} (${job.type}) failed permanently: ${message}`, 'jobs');
+      }
+    }
+  }
+}
+
+/**
+ * The job queue: enqueueJob adds work, the worker runs it
+ */
+export function createJobService(settings: Config["jobs"], deps: JobDependencies) {
+  const context: JobContext = { settings, storage: deps.storage, definitions: createJobDefinitions(deps) };
+  return {
+    enqueueJob: <K extends JobType>(type: K, payload: unknown, ownerId: number) => enqueueJob(context, type, payload, ownerId),
+    worker: new JobWorker(context)
+  };
+}
+
+export type JobService = ReturnType<typeof createJobService>;
@@ -0,0 +1,93 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { log } from "../../utils";
+import type { UpstreamClient } from "../upstream";
+import type { LLMProvider, LLMRequestOptions, LLMResponse } from "./types";
+
+export interface AnthropicProviderConfig {
+  apiKey?: string;
+  model?: string;
+  upstream: UpstreamClient;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  readonly defaultModel: string;
+  private apiKey?: string;
+  private client?: Anthropic;
+  private upstream: UpstreamClient;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.upstream = config.upstream;
+    this.defaultModel = config.model ?? "claude-3-5-sonnet-latest";
+  }
+
+  private getClient(): Anthropic {
+    if (!this.apiKey) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is not set");
+    }
+    this.client ??= new Anthropic({
+      apiKey: this.apiKey,
+      // Retries, timeouts and the circuit breaker are handled by the shared upstream client
+      maxRetries: 0,
+      fetch: (url, init) => this.upstream.fetch(String(url), init)
+    });
+    return this.client;
+  }
+
+  /**
+   * Generates text using the Anthropic Messages API
+   */
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<LLMResponse> {
+    const model = options.model ?? this.defaultModel;
+
+    try {
+      const message = await this.getClient().messages.create({
+        model,
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature ?? 0.7,
+        top_p: options.topP,
+        top_k: options.topK,
+        messages: [{ role: "user", content: prompt }]
+      }, { signal: options.signal });
+
+      const text = message.content
+        .map(block => block.type === "text" ? block.text : "")
+        .join("");
+
+      return {
+        text,
+        provider: this.name,
+        model: message.model,
+        usage: {
+          inputTokens: message.usage.input_tokens,
+          outputTokens: message.usage.output_tokens
+        }
+      };
+    } catch (error) {
+      log(`Error generating text with Anthropic: ${error}`, 'anthropic', 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Streams text using the Anthropic Messages API
+   */
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const events = await this.getClient().messages.create({
+      model: options.model ?? this.defaultModel,
+      max_tokens: options.maxTokens ?? 1024,
+      temperature: options.temperature ?? 0.7,
+      top_p: options.topP,
+      top_k: options.topK,
+      messages: [{ role: "user", content: prompt }],
+      stream: true
+    }, { signal: options.signal });
+
+    for await (const event of events) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield event.delta.text;
+      }
+    }
+  }
+}
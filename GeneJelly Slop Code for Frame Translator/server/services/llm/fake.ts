@@ -0,0 +1,84 @@
+import { createHash } from "crypto";
+import type { LLMProvider, LLMRequestOptions, LLMResponse } from "./types";
+
+export type FakeResponder = (prompt: string, options: LLMRequestOptions) => string;
+
+/**
+ * Finds the JSON example embedded in a prompt ("Output your response in this exact JSON format: {...}")
+ * so the fake can answer structured prompts with a well-formed response
+ */
+function findJsonTemplate(prompt: string): string | undefined {
+  for (let start = prompt.indexOf("{"); start !== -1; start = prompt.indexOf("{", start + 1)) {
+    let depth = 0;
+    for (let i = start; i < prompt.length; i++) {
+      if (prompt[i] === "{") depth++;
+      if (prompt[i] === "}") depth--;
+      if (depth === 0) {
+        const candidate = prompt.slice(start, i + 1);
+        try {
+          JSON.parse(candidate);
+          return candidate;
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Default fake behaviour: echo the prompt's JSON template if it has one,
+ * otherwise return a stable digest of the prompt
+ */
+export const defaultFakeResponder: FakeResponder = (prompt) => {
+  const template = findJsonTemplate(prompt);
+  if (template) {
+    return template;
+  }
+  const digest = createHash("sha256").update(prompt).digest("hex").slice(0, 12);
+  return `Fake response ${digest}`;
+};
+
+/**
+ * Deterministic offline provider for development and tests. Never touches the network.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly defaultModel = "fake-1";
+  readonly calls: { prompt: string; options: LLMRequestOptions }[] = [];
+
+  constructor(private responder: FakeResponder = defaultFakeResponder) {}
+
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<LLMResponse> {
+    this.calls.push({ prompt, options });
+    const text = this.responder(prompt, options);
+
+    return {
+      text,
+      provider: this.name,
+      model: options.model ?? this.defaultModel,
+      usage: {
+        // Roughly four characters per token, good enough for a fake
+        inputTokens: Math.ceil(prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+
+  /**
+   * Streams the same text generate() would return, one word at a time
+   */
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const { text } = await this.generate(prompt, options);
+
+    for (const word of text.split(/(?<=\s)/)) {
+      if (options.signal?.aborted) {
+        throw new Error("Stream aborted");
+      }
+      // Yield to the event loop between chunks like a real network stream would
+      await new Promise(resolve => setImmediate(resolve));
+      yield word;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { z } from "zod";
+import { log } from "../../utils";
+import { UpstreamError, type UpstreamClient } from "../upstream";
+import { readSseData } from "./sse";
+import type { LLMProvider, LLMRequestOptions, LLMResponse } from "./types";
+
+// Define the types for the Gemini API responses
+const GeminiResponseSchema = z.object({
+  candidates: z.array(
+    z.object({
+      content: z.object({
+        parts: z.array(
+          z.object({
+            text: z.string()
+          })
+        )
+      })
+    })
+  ),
+  usageMetadata: z.object({
+    promptTokenCount: z.number().optional(),
+    candidatesTokenCount: z.number().optional()
+  }).optional()
+});
+
+export type GeminiResponse = z.infer<typeof GeminiResponseSchema>;
+
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  apiUrl?: string;
+  model?: string;
+  upstream: UpstreamClient;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  readonly defaultModel: string;
+  private apiKey?: string;
+  private apiUrl: string;
+  private upstream: UpstreamClient;
+
+  constructor(config: GeminiProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.upstream = config.upstream;
+    this.apiUrl = config.apiUrl ?? "https://generativelanguage.googleapis.com/v1beta";
+    this.defaultModel = config.model ?? "gemini-1.5-pro";
+  }
+
+  private async request(method: string, prompt: string, options: LLMRequestOptions, query: string = ""): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable is not set");
+    }
+
+    const url = `${this.apiUrl}/models/${method}?key=${this.apiKey}${query}`;
+
+    const response = await this.upstream.fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json"
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [
+              {
+                text: prompt
+              }
+            ]
+          }
+        ],
+        generationConfig: {
+          maxOutputTokens: options.maxTokens ?? 1024,
+          temperature: options.temperature ?? 0.7,
+          topP: options.topP ?? 0.95,
+          topK: options.topK ?? 40
+        }
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log(`Gemini API Error: ${response.status} - ${errorText}`, 'gemini');
+      throw new UpstreamError("gemini", response.status, `Gemini API error: ${response.status}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Generates text using the Gemini generateContent API
+   */
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<LLMResponse> {
+    const model = options.model ?? this.defaultModel;
+
+    try {
+      const response = await this.request(`${model}:generateContent`, prompt, options);
+      const parsed = GeminiResponseSchema.parse(await response.json());
+
+      // Extract the generated text from the first candidate
+      const text = parsed.candidates[0]?.content.parts[0]?.text;
+      if (text === undefined) {
+        throw new Error("No content in the response");
+      }
+
+      return {
+        text,
+        provider: this.name,
+        model,
+        usage: {
+          inputTokens: parsed.usageMetadata?.promptTokenCount ?? 0,
+          outputTokens: parsed.usageMetadata?.candidatesTokenCount ?? 0
+        }
+      };
+    } catch (error) {
+      log(`Error generating text with Gemini: ${error}`, 'gemini', 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Streams text using the Gemini streamGenerateContent API (server-sent events)
+   */
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const model = options.model ?? this.defaultModel;
+    const response = await this.request(`${model}:streamGenerateContent`, prompt, options, "&alt=sse");
+
+    for await (const data of readSseData(response)) {
+      const chunk = GeminiResponseSchema.partial().parse(JSON.parse(data));
+      const text = chunk.candidates?.[0]?.content.parts.map(part => part.text).join("");
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import type { Config } from "../../config";
+import { log } from "../../utils";
+import { hashKey, type Cache } from "../cache";
+import type { Upstreams } from "../upstream";
+import { estimateTokens, type UsageService } from "../usage";
+import { AnthropicProvider } from "./anthropic";
+import { FakeProvider } from "./fake";
+import { GeminiProvider } from "./gemini";
+import { OpenAICompatibleProvider } from "./openai";
+import { createStructured } from "./structured";
+import type { LLMProvider, LLMResponse, LLMTask, ProviderName } from "./types";
+
+export * from "./types";
+export { FakeProvider } from "./fake";
+
+export interface TaskModelConfig {
+  provider: ProviderName;
+  model?: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+const taskDefaults: Record<LLMTask, Omit<TaskModelConfig, "provider">> = {
+  insights: { temperature: 0.7, maxTokens: 1000 },
+  // Slightly higher temperature for more creative connections
+  comparison: { temperature: 0.7, maxTokens: 1024 },
+  translation: { temperature: 0.7, maxTokens: 1024 }
+};
+
+export interface LLMDependencies {
+  upstreams: Upstreams;
+  usage: UsageService;
+  // Validated structured output, keyed by taskCacheKey
+  cache: Cache;
+  // Used instead of the configured ones, e.g. a scripted FakeProvider in tests
+  providers?: Partial<Record<ProviderName, LLMProvider>>;
+}
+
+/**
+ * Runs prompts for tasks on the providers configured in llm settings, checking quota
+ * before and recording usage after every provider call
+ */
+export function createLLMService(settings: Config["llm"], { upstreams, usage, cache, providers: injected = {} }: LLMDependencies) {
+  const providers = new Map(Object.entries(injected) as [ProviderName, LLMProvider][]);
+
+  /**
+   * Resolves the provider, model and generation settings for a task.
+   * llm.provider / llm.model set the deployment default; llm.tasks.<task> overrides it per task.
+   */
+  function getTaskConfig(task: LLMTask): TaskModelConfig {
+    const overrides = settings.tasks[task];
+    const provider = overrides.provider ?? settings.provider;
+    const defaultModel = provider === settings.provider ? settings.model : undefined;
+
+    return {
+      provider,
+      model: overrides.model ?? defaultModel,
+      temperature: overrides.temperature ?? taskDefaults[task].temperature,
+      maxTokens: overrides.maxTokens ?? taskDefaults[task].maxTokens
+    };
+  }
+
+  function createProvider(name: ProviderName): LLMProvider {
+    switch (name) {
+      case "gemini":
+        return new GeminiProvider({ apiKey: settings.gemini.apiKey, upstream: upstreams.get("gemini") });
+      case "anthropic":
+        return new AnthropicProvider({ apiKey: settings.anthropic.apiKey, upstream: upstreams.get("anthropic") });
+      case "openai":
+        return new OpenAICompatibleProvider({
+          apiKey: settings.openai.apiKey,
+          baseUrl: settings.openai.baseUrl,
+          upstream: upstreams.get("openai")
+        });
+      case "fake":
+        return new FakeProvider();
+    }
+  }
+
+  function getProvider(name: ProviderName): LLMProvider {
+    let provider = providers.get(name);
+    if (!provider) {
+      provider = createProvider(name);
+      providers.set(name, provider);
+      log(`Initialized ${name} LLM provider (default model ${provider.defaultModel})`, 'llm');
+    }
+    return provider;
+  }
+
+  function resolveTask(task: LLMTask) {
+    const config = getTaskConfig(task);
+    const provider = getProvider(config.provider);
+    const options = {
+      model: config.model ?? provider.defaultModel,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens
+    };
+    return { config, provider, options };
+  }
+
+  /**
+   * Runs a prompt with the provider and settings configured for the task. Always calls the
+   * provider; generateStructured caches output once it has passed validation.
+   * @throws QuotaExceededError if the account on the current context has used up its daily quota
+   */
+  async function generateForTask(task: LLMTask, prompt: string): Promise<LLMResponse> {
+    const { config, provider, options } = resolveTask(task);
+    await usage.assertContextWithinQuota();
+    const response = await provider.generate(prompt, options);
+    await usage.recordUsage({
+      task,
+      provider: config.provider,
+      model: response.model,
+      inputTokens: response.usage?.inputTokens ?? estimateTokens(prompt),
+      outputTokens: response.usage?.outputTokens ?? estimateTokens(response.text),
+      estimated: !response.usage
+    });
+    return response;
+  }
+
+  /**
+   * Cache key for a task prompt: the same provider, model, options and prompt share a key
+   */
+  function taskCacheKey(task: LLMTask, prompt: string): string {
+    const { provider, options } = resolveTask(task);
+    return hashKey({ provider: provider.name, ...options, prompt });
+  }
+
+  return {
+    getTaskConfig,
+    getProvider,
+    generateForTask,
+
+    /**
+     * The provider and model a task will run on, as recorded alongside stored results
+     */
+    describeTaskModel(task: LLMTask): { provider: string; model: string } {
+      const config = getTaskConfig(task);
+      return { provider: config.provider, model: config.model ?? getProvider(config.provider).defaultModel };
+    },
+
+    /**
+     * Streams a prompt's output with the provider and settings configured for the task
+     * @throws QuotaExceededError if the account on the current context has used up its daily quota
+     */
+    async *streamForTask(task: LLMTask, prompt: string, signal?: AbortSignal): AsyncIterable<string> {
+      const config = getTaskConfig(task);
+      const provider = getProvider(config.provider);
+      let output = "";
+
+      await usage.assertContextWithinQuota();
+      try {
+        for await (const chunk of provider.stream(prompt, {
+          model: config.model,
+          temperature: config.temperature,
+          maxTokens: config.maxTokens,
+          signal
+        })) {
+          output += chunk;
+          yield chunk;
+        }
+      } finally {
+        // Providers don't report usage on streams; estimate it, including streams cut short
+        await usage.recordUsage({
+          task,
+          provider: config.provider,
+          model: config.model ?? provider.defaultModel,
+          inputTokens: estimateTokens(prompt),
+          outputTokens: estimateTokens(output),
+          estimated: true
+        });
+      }
+    },
+
+    ...createStructured({ generateForTask, taskCacheKey, cache, maxRepairs: settings.maxRepairs })
+  };
+}
+
+export type LLMService = ReturnType<typeof createLLMService>;
+
+export {
+  extractJson,
+  LLMOutputError,
+  type StructuredOptions,
+  type StructuredResult
+} from "./structured";
@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { log } from "../../utils";
+import { UpstreamError, type UpstreamClient } from "../upstream";
+import { readSseData } from "./sse";
+import type { LLMProvider, LLMRequestOptions, LLMResponse } from "./types";
+
+const ChatCompletionChunkSchema = z.object({
+  choices: z.array(
+    z.object({
+      delta: z.object({
+        content: z.string().nullable().optional()
+      })
+    })
+  )
+});
+
+const ChatCompletionSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(
+    z.object({
+      message: z.object({
+        content: z.string().nullable()
+      })
+    })
+  ),
+  usage: z.object({
+    prompt_tokens: z.number(),
+    completion_tokens: z.number()
+  }).optional()
+});
+
+export interface OpenAIProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+  upstream: UpstreamClient;
+}
+
+/**
+ * Provider for any endpoint that speaks the OpenAI chat completions protocol
+ * (OpenAI itself, vLLM, Ollama, LM Studio, OpenRouter, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  readonly defaultModel: string;
+  private apiKey?: string;
+  private baseUrl: string;
+  private upstream: UpstreamClient;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.apiKey = config.apiKey;
+    this.upstream = config.upstream;
+    this.baseUrl = (config.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+    this.defaultModel = config.model ?? "gpt-4o-mini";
+  }
+
+  private async request(prompt: string, model: string, options: LLMRequestOptions, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // Local servers usually don't need a key
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await this.upstream.fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: options.maxTokens ?? 1024,
+        temperature: options.temperature ?? 0.7,
+        top_p: options.topP,
+        stream
+      }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      log(`OpenAI-compatible API Error: ${response.status} - ${errorText}`, 'openai');
+      throw new UpstreamError("openai", response.status, `OpenAI-compatible API error: ${response.status}`);
+    }
+
+    return response;
+  }
+
+  async generate(prompt: string, options: LLMRequestOptions = {}): Promise<LLMResponse> {
+    const model = options.model ?? this.defaultModel;
+
+    try {
+      const response = await this.request(prompt, model, options, false);
+      const parsed = ChatCompletionSchema.parse(await response.json());
+      const text = parsed.choices[0]?.message.content;
+      if (text === undefined || text === null) {
+        throw new Error("No content in the response");
+      }
+
+      return {
+        text,
+        provider: this.name,
+        model: parsed.model ?? model,
+        usage: parsed.usage && {
+          inputTokens: parsed.usage.prompt_tokens,
+          outputTokens: parsed.usage.completion_tokens
+        }
+      };
+    } catch (error) {
+      log(`Error generating text with OpenAI-compatible API: ${error}`, 'openai', 'error');
+      throw error;
+    }
+  }
+
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    const response = await this.request(prompt, options.model ?? this.defaultModel, options, true);
+
+    for await (const data of readSseData(response)) {
+      if (data === "[DONE]") return;
+      const text = ChatCompletionChunkSchema.parse(JSON.parse(data)).choices[0]?.delta.content;
+      if (text) {
+        yield text;
+      }
+    }
+  }
+}
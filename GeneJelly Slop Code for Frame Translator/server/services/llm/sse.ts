@@ -0,0 +1,32 @@
+/**
+ * Reads a server-sent events response body and yields the `data:` payload of each event
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error("Streaming response has no body");
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+      const event = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith("data:"))
+        .map(line => line.slice(5).trimStart())
+        .join("\n");
+
+      if (data) {
+        yield data;
+      }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { UpstreamFailure } from "../../errors";
+import { log } from "../../utils";
+import type { Cache } from "../cache";
+import type { LLMResponse, LLMTask } from "./types";
+
+/**
+ * Thrown when a task's output still fails its schema after every repair attempt
+ */
+export class LLMOutputError extends UpstreamFailure {
+  constructor(
+    readonly task: LLMTask,
+    readonly attempts: number,
+    readonly issues: string,
+  ) {
+    super(502, "LLM_INVALID_OUTPUT", "llm", `The ${task} model returned invalid output after ${attempts} attempt(s): ${issues}`, { task, attempts });
+  }
+}
+
+/**
+ * Pulls the JSON object out of a model response, tolerating markdown code fences
+ * and chatter before or after the object
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("Response did not contain a JSON object");
+  }
+
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+function describeFailure(text: string, schema: z.ZodTypeAny): { ok: true; data: unknown } | { ok: false; issues: string } {
+  let json: unknown;
+  try {
+    json = extractJson(text);
+  } catch (error) {
+    return { ok: false, issues: error instanceof Error ? error.message : String(error) };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { ok: false, issues: fromZodError(result.error, { prefix: null }).message };
+  }
+  return { ok: true, data: result.data };
+}
+
+function buildRepairPrompt(prompt: string, previous: string, issues: string): string {
+  return `${prompt}
+
+Your previous response was:
+${previous}
+
+It could not be used because: ${issues}
+
+Respond again with ONLY the corrected JSON object, matching the requested format exactly.`;
+}
+
+export interface StructuredResult<T> {
+  data: T;
+  response: LLMResponse;
+  attempts: number;
+}
+
+export interface StructuredOptions {
+  // Defaults to llm.maxRepairs
+  maxRepairs?: number;
+  // Set to false to always ask the model, e.g. when regenerating something on purpose.
+  // The fresh output still replaces the cached one.
+  cache?: boolean;
+}
+
+interface StructuredDependencies {
+  generateForTask(task: LLMTask, prompt: string): Promise<LLMResponse>;
+  taskCacheKey(task: LLMTask, prompt: string): string;
+  cache: Cache;
+  // How many times invalid output is sent back to the model for repair (llm.maxRepairs)
+  maxRepairs: number;
+}
+
+export function createStructured({ generateForTask, taskCacheKey, cache: llmCache, maxRepairs: defaultMaxRepairs }: StructuredDependencies) {
+  /**
+   * Validates a response that was already generated for a task prompt (for example by streaming),
+   * repairing it the same way generateStructured does
+   * @throws LLMOutputError if no attempt produced valid output
+   */
+  async function validateStructured<T extends z.ZodTypeAny>(
+    task: LLMTask,
+    prompt: string,
+    response: LLMResponse,
+    schema: T,
+    maxRepairs: number = defaultMaxRepairs,
+  ): Promise<StructuredResult<z.infer<T>>> {
+    let current = response;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = describeFailure(current.text, schema);
+      if (result.ok) {
+        return { data: result.data, response: current, attempts: attempt };
+      }
+
+      log(`Invalid ${task} output (attempt ${attempt}): ${result.issues}`, 'llm');
+      if (attempt > maxRepairs) {
+        throw new LLMOutputError(task, attempt, result.issues);
+      }
+      current = await generateForTask(task, buildRepairPrompt(prompt, current.text, result.issues));
+    }
+  }
+
+  /**
+   * Runs a task prompt and validates the response against the task's output schema.
+   * Invalid output is sent back to the model with a repair prompt up to `maxRepairs` times.
+   * Only output that passed validation is cached, keyed by the original prompt.
+   * @throws LLMOutputError if no attempt produced valid output
+   */
+  async function generateStructured<T extends z.ZodTypeAny>(
+    task: LLMTask,
+    prompt: string,
+    schema: T,
+    { maxRepairs, cache = true }: StructuredOptions = {},
+  ): Promise<StructuredResult<z.infer<T>>> {
+    const key = taskCacheKey(task, prompt);
+    if (cache) {
+      const cached = await llmCache.get<StructuredResult<unknown>>(key);
+      // Checked again in case the schema changed since it was cached
+      const parsed = cached && schema.safeParse(cached.data);
+      if (cached && parsed?.success) {
+        return { ...cached, data: parsed.data };
+      }
+    }
+
+    // Only calls that reach the provider count towards usage, not cache hits
+    const response = await generateForTask(task, prompt);
+    const result = await validateStructured(task, prompt, response, schema, maxRepairs);
+    await llmCache.set(key, result);
+    return result;
+  }
+
+  return { generateStructured, validateStructured };
+}
@@ -0,0 +1,48 @@
+/**
+ * Options shared by every LLM provider. Providers ignore options they don't support.
+ */
+export interface LLMRequestOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  // Aborts the upstream request, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+
+  /**
+   * Sends a single-turn prompt and returns the model's text output
+   */
+  generate(prompt: string, options?: LLMRequestOptions): Promise<LLMResponse>;
+
+  /**
+   * Sends a single-turn prompt and yields the model's text output as it is generated
+   */
+  stream(prompt: string, options?: LLMRequestOptions): AsyncIterable<string>;
+}
+
+/**
+ * Every kind of LLM call the app makes. Each task can be routed to its own provider and model.
+ */
+export const llmTasks = ["insights", "comparison", "translation"] as const;
+export type LLMTask = typeof llmTasks[number];
+
+export const providerNames = ["gemini", "anthropic", "openai", "fake"] as const;
+export type ProviderName = typeof providerNames[number];
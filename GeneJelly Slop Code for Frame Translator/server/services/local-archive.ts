@@ -0,0 +1,227 @@
+import type { ArchiveTweet, ArchiveTweetQuery, CommunityArchive } from "@shared/schema";
+import type { Config } from "../config";
+import { getRequestContext } from "../context";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import {
+  ArchiveAccountNotFoundError,
+  ArchiveClient,
+  CommunityArchiveAPI,
+  cleanHandle,
+  type ArchiveAccount,
+  type ArchiveAccountRecord,
+  type Tweet,
+  type TweetPage,
+  type TweetQuery
+} from "./community-archive";
+import type { Caches } from "./cache";
+import type { Upstreams } from "./upstream";
+
+function toArchiveAccount(archive: CommunityArchive): ArchiveAccount {
+  const hasProfile = [archive.bio, archive.website, archive.location, archive.avatarMediaUrl].some(value => value !== null);
+  return {
+    account_id: archive.accountId,
+    username: archive.username,
+    account_display_name: archive.displayName,
+    created_at: archive.accountCreatedAt?.toISOString() ?? null,
+    num_tweets: archive.tweetCount,
+    num_likes: archive.likeCount,
+    num_followers: null,
+    num_following: null,
+    profile: hasProfile ? {
+      account_id: archive.accountId,
+      bio: archive.bio,
+      website: archive.website,
+      location: archive.location,
+      avatar_media_url: archive.avatarMediaUrl
+    } : null
+  };
+}
+
+function toTweet(archive: CommunityArchive, tweet: ArchiveTweet): Tweet {
+  return {
+    tweet_id: tweet.tweetId,
+    full_text: tweet.fullText,
+    created_at: tweet.createdAt.toISOString(),
+    favorite_count: tweet.favoriteCount,
+    retweet_count: tweet.retweetCount,
+    account_id: archive.accountId,
+    reply_to_tweet_id: tweet.replyToTweetId,
+    reply_to_user_id: tweet.replyToUserId,
+    reply_to_username: tweet.replyToUsername
+  };
+}
+
+/**
+ * Serves imported Twitter/X exports from storage, in front of the hosted archive when there is one.
+ * Accounts that were imported are answered locally; everything else goes to the hosted archive.
+ * Lookups that merge both sides (replies, lookups by id) fall back to local results if it fails.
+ *
+ * Each lookup reads storage, so imports and deletions (from any process) show up straight away.
+ * Command-line imports are read for everyone; an import made through the API only for the
+ * account that made it, and not while building shared results (see RequestContext.shared).
+ */
+export class LocalArchive extends ArchiveClient {
+  constructor(private storage: IStorage, private hosted: ArchiveClient | null) {
+    super();
+  }
+
+  /**
+   * The imports this request may read, one per account: the viewer's own import of an
+   * account wins over a command-line one
+   */
+  private async visibleArchives(): Promise<CommunityArchive[]> {
+    const context = getRequestContext();
+    const viewer = context?.shared ? null : context?.accountId ?? null;
+    const byAccount = new Map<string, CommunityArchive>();
+    for (const archive of await this.storage.listCommunityArchives(viewer)) {
+      const seen = byAccount.get(archive.accountId);
+      if (!seen || (seen.importedBy === null && archive.importedBy !== null)) {
+        byAccount.set(archive.accountId, archive);
+      }
+    }
+    return Array.from(byAccount.values());
+  }
+
+  private async findArchive(accountId: string): Promise<CommunityArchive | undefined> {
+    return (await this.visibleArchives()).find(archive => archive.accountId === accountId);
+  }
+
+  private async searchTweets(archives: CommunityArchive[], query: Omit<ArchiveTweetQuery, "archiveIds">): Promise<Tweet[]> {
+    const byId = new Map(archives.map(archive => [archive.id, archive]));
+    const tweets = await this.storage.queryArchiveTweets({ ...query, archiveIds: Array.from(byId.keys()) });
+    return tweets.map(tweet => toTweet(byId.get(tweet.archiveId)!, tweet));
+  }
+
+  private async alsoHosted<T>(lookup: (hosted: ArchiveClient) => Promise<T[]>): Promise<T[]> {
+    if (!this.hosted) return [];
+    try {
+      return await lookup(this.hosted);
+    } catch (error) {
+      log(`Hosted archive lookup failed, using local results only: ${error instanceof Error ? error.message : error}`, "local-archive", "warn");
+      return [];
+    }
+  }
+
+  async resolveAccount(handle: string): Promise<ArchiveAccount> {
+    const username = cleanHandle(handle).toLowerCase();
+    const archive = (await this.visibleArchives()).find(archive => archive.username.toLowerCase() === username);
+    if (archive) return toArchiveAccount(archive);
+    if (!this.hosted) {
+      throw new ArchiveAccountNotFoundError(cleanHandle(handle));
+    }
+    return this.hosted.resolveAccount(handle);
+  }
+
+  // Cursors are plain offsets here; callers treat them as opaque
+  async getAccountTweets(accountId: string, query: TweetQuery = {}): Promise<TweetPage> {
+    const archive = await this.findArchive(accountId);
+    if (!archive) {
+      return this.hosted ? this.hosted.getAccountTweets(accountId, query) : { tweets: [], nextCursor: null };
+    }
+
+    const limit = query.limit ?? 25;
+    const offset = query.cursor ? Number(query.cursor) : 0;
+    // One extra tells whether there is another page
+    const tweets = await this.searchTweets([archive], {
+      since: toDate(query.since),
+      until: toDate(query.until),
+      excludeReplies: query.excludeReplies,
+      excludeRetweets: query.excludeRetweets,
+      minLikes: query.minLikes,
+      replyToUserId: query.replyToUserId,
+      order: query.order,
+      offset,
+      limit: limit + 1
+    });
+    return { tweets: tweets.slice(0, limit), nextCursor: tweets.length > limit ? String(offset + limit) : null };
+  }
+
+  async countAccountTweets(accountId: string, since?: Date | string): Promise<number> {
+    const archive = await this.findArchive(accountId);
+    if (!archive) {
+      return this.hosted ? this.hosted.countAccountTweets(accountId, since) : 0;
+    }
+    return this.storage.countArchiveTweets({ archiveIds: [archive.id], since: toDate(since) });
+  }
+
+  async getTweet(tweetId: string): Promise<Tweet | null> {
+    const [tweet] = await this.searchTweets(await this.visibleArchives(), { tweetIds: [tweetId], limit: 1 });
+    if (tweet || !this.hosted) return tweet ?? null;
+    return this.hosted.getTweet(tweetId);
+  }
+
+  async getTweetsById(tweetIds: string[]): Promise<Tweet[]> {
+    const found = await this.searchTweets(await this.visibleArchives(), { tweetIds: Array.from(new Set(tweetIds)) });
+    const localIds = new Set(found.map(tweet => tweet.tweet_id));
+    const missing = tweetIds.filter(id => !localIds.has(id));
+    if (missing.length === 0) return found;
+    return [...found, ...await this.alsoHosted(hosted => hosted.getTweetsById(missing))];
+  }
+
+  async getRepliesToAccount(accountId: string, query: Pick<TweetQuery, "since" | "until" | "limit"> = {}): Promise<Tweet[]> {
+    const limit = query.limit ?? 500;
+    // Replies by others, so not from the account's own archive
+    const archives = (await this.visibleArchives()).filter(archive => archive.accountId !== accountId);
+    const [local, hosted] = await Promise.all([
+      this.searchTweets(archives, { replyToUserId: accountId, since: toDate(query.since), until: toDate(query.until), limit }),
+      this.alsoHosted(hosted => hosted.getRepliesToAccount(accountId, query))
+    ]);
+    return mergeTweets(local, hosted)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      .slice(0, limit);
+  }
+
+  async getAccountsById(accountIds: string[]): Promise<ArchiveAccountRecord[]> {
+    const wanted = new Set(accountIds);
+    const found = (await this.visibleArchives())
+      .filter(archive => wanted.has(archive.accountId))
+      .map(archive => {
+        const { profile, ...record } = toArchiveAccount(archive);
+        return record;
+      });
+    const localIds = new Set(found.map(account => account.account_id));
+    const missing = Array.from(wanted).filter(id => !localIds.has(id));
+    if (missing.length === 0) return found;
+    return [...found, ...await this.alsoHosted(hosted => hosted.getAccountsById(missing))];
+  }
+
+  async getReplies(tweetId: string, limit: number = 100): Promise<Tweet[]> {
+    const [local, hosted] = await Promise.all([
+      this.searchTweets(await this.visibleArchives(), { replyToTweetId: tweetId, order: "oldest", limit }),
+      this.alsoHosted(hosted => hosted.getReplies(tweetId, limit))
+    ]);
+    return mergeTweets(local, hosted)
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+      .slice(0, limit);
+  }
+}
+
+function toDate(value: Date | string | undefined): Date | undefined {
+  return value === undefined ? undefined : new Date(value);
+}
+
+// Local copies win when both sides have a tweet
+function mergeTweets(local: Tweet[], hosted: Tweet[]): Tweet[] {
+  const ids = new Set(local.map(tweet => tweet.tweet_id));
+  return [...local, ...hosted.filter(tweet => !ids.has(tweet.tweet_id))];
+}
+
+/**
+ * Builds the archive client for the configured source
+ * @param deps.hosted Used instead of the Community Archive API, e.g. a FakeArchive in tests
+ */
+export function createArchiveClient(
+  settings: Config["archive"],
+  deps: { storage: IStorage; upstreams: Upstreams; caches: Caches; hosted?: ArchiveClient }
+): ArchiveClient {
+  const hosted = () => deps.hosted ?? new CommunityArchiveAPI(settings, deps.upstreams.get("archive"), deps.caches.archive);
+  switch (settings.source) {
+    case "hosted":
+      return hosted();
+    case "local":
+      return new LocalArchive(deps.storage, null);
+    case "both":
+      return new LocalArchive(deps.storage, hosted());
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  ArchiveAccountNotFoundError,
+  ArchiveClient,
+  cleanHandle,
+  compareTweetIds,
+  type ArchiveAccount,
+  type ArchiveAccountRecord,
+  type Tweet,
+  type TweetPage,
+  type TweetQuery
+} from "./community-archive";
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+/**
+ * Archive held entirely in memory. Answers every lookup the way the hosted archive does;
+ * fill it with putAccount and putTweet.
+ */
+export class MemoryArchive extends ArchiveClient {
+  protected accounts = new Map<string, ArchiveAccount>();
+  protected tweets = new Map<string, Tweet>();
+
+  putAccount(account: ArchiveAccount): void {
+    this.accounts.set(account.account_id, account);
+  }
+
+  putTweet(tweet: Tweet): void {
+    this.tweets.set(tweet.tweet_id, tweet);
+  }
+
+  hasAccount(accountId: string): boolean {
+    return this.accounts.has(accountId);
+  }
+
+  findAccount(handle: string): ArchiveAccount | undefined {
+    const username = cleanHandle(handle).toLowerCase();
+    return Array.from(this.accounts.values()).find(account => account.username.toLowerCase() === username);
+  }
+
+  async resolveAccount(handle: string): Promise<ArchiveAccount> {
+    const account = this.findAccount(handle);
+    if (!account) {
+      throw new ArchiveAccountNotFoundError(cleanHandle(handle));
+    }
+    return account;
+  }
+
+  private matching(accountId: string, query: TweetQuery): Tweet[] {
+    return Array.from(this.tweets.values()).filter(tweet =>
+      tweet.account_id === accountId
+      && (!query.since || toTime(tweet.created_at) >= toTime(query.since))
+      && (!query.until || toTime(tweet.created_at) < toTime(query.until))
+      && (!query.excludeReplies || !tweet.reply_to_tweet_id)
+      && (!query.excludeRetweets || !tweet.full_text.startsWith("RT @"))
+      && (!query.replyToUserId || tweet.reply_to_user_id === query.replyToUserId)
+      && (query.minLikes === undefined || tweet.favorite_count >= query.minLikes)
+    );
+  }
+
+  // Cursors are plain offsets here; callers treat them as opaque
+  async getAccountTweets(accountId: string, query: TweetQuery = {}): Promise<TweetPage> {
+    const limit = query.limit ?? 25;
+    const offset = query.cursor ? Number(query.cursor) : 0;
+    const sorted = this.matching(accountId, query).sort((a, b) =>
+      query.order === "popular"
+        ? b.favorite_count - a.favorite_count || b.created_at.localeCompare(a.created_at) || compareTweetIds(b.tweet_id, a.tweet_id)
+        : b.created_at.localeCompare(a.created_at) || compareTweetIds(b.tweet_id, a.tweet_id)
+    );
+    const tweets = sorted.slice(offset, offset + limit);
+    return { tweets, nextCursor: offset + limit < sorted.length ? String(offset + limit) : null };
+  }
+
+  async countAccountTweets(accountId: string, since?: Date | string): Promise<number> {
+    return this.matching(accountId, { since }).length;
+  }
+
+  async getTweet(tweetId: string): Promise<Tweet | null> {
+    return this.tweets.get(tweetId) ?? null;
+  }
+
+  async getTweetsById(tweetIds: string[]): Promise<Tweet[]> {
+    return Array.from(new Set(tweetIds)).flatMap(id => this.tweets.get(id) ?? []);
+  }
+
+  async getRepliesToAccount(accountId: string, query: Pick<TweetQuery, "since" | "until" | "limit"> = {}): Promise<Tweet[]> {
+    return Array.from(this.tweets.values())
+      .filter(tweet =>
+        tweet.reply_to_user_id === accountId
+        && tweet.account_id !== accountId
+        && (!query.since || toTime(tweet.created_at) >= toTime(query.since))
+        && (!query.until || toTime(tweet.created_at) < toTime(query.until))
+      )
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, query.limit ?? 500);
+  }
+
+  async getAccountsById(accountIds: string[]): Promise<ArchiveAccountRecord[]> {
+    return Array.from(new Set(accountIds)).flatMap(id => {
+      const account = this.accounts.get(id);
+      if (!account) return [];
+      const { profile, ...record } = account;
+      return [record];
+    });
+  }
+
+  async getReplies(tweetId: string, limit: number = 100): Promise<Tweet[]> {
+    return Array.from(this.tweets.values())
+      .filter(tweet => tweet.reply_to_tweet_id === tweetId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,86 @@
+import { insertRoomSchema, type Room, type RoomResult, type User } from "@shared/schema";
+import { cleanHandle, type RoomRequest } from "@shared/api";
+import { NotFoundError } from "../errors";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import { describeInsight, type AnalysisService } from "./analysis";
+
+/**
+ * Thrown when a room can't be analysed because members or their insights are missing
+ */
+export class RoomUnavailableError extends NotFoundError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details, "ROOM_UNAVAILABLE");
+  }
+}
+
+/**
+ * Keeps the model's output to the room's members: unknown handles are dropped, handles are
+ * restored to their stored spelling, and entries left without members are removed
+ */
+export function sanitizeRoomResult(result: RoomResult, handles: string[]): RoomResult {
+  const known = new Map(handles.map(handle => [handle.toLowerCase(), handle]));
+  const members = (list: string[]) => Array.from(new Set(
+    list.map(handle => known.get(cleanHandle(handle).toLowerCase())).filter((h): h is string => !!h)
+  ));
+
+  return {
+    ...result,
+    clusters: result.clusters
+      .map(cluster => ({ ...cluster, members: members(cluster.members) }))
+      .filter(cluster => cluster.members.length > 0),
+    splits: result.splits
+      .map(split => ({
+        ...split,
+        sides: split.sides
+          .map(side => ({ ...side, members: members(side.members) }))
+          .filter(side => side.members.length > 0)
+      }))
+      .filter(split => split.sides.length >= 2),
+    introductions: result.introductions.flatMap(intro => {
+      const [a, b] = members(intro.handles);
+      return a && b ? [{ ...intro, handles: [a, b] as [string, string] }] : [];
+    })
+  };
+}
+
+export function createRoomService({ storage, analysis }: { storage: IStorage; analysis: AnalysisService }) {
+  /**
+   * Analyses where a group of users with insights agrees and splits on a question, and stores it
+   * @throws RoomUnavailableError if a member or their insight is missing
+   */
+  async function createRoomAnalysis({ handles, question }: RoomRequest, ownerId: number | null = null): Promise<Room> {
+    const users = await Promise.all(handles.map(handle => storage.getUserByTwitterHandle(handle)));
+    const missingUsers = handles.filter((_, i) => !users[i]);
+    if (missingUsers.length > 0) {
+      throw new RoomUnavailableError("Some members were not found", { missingUsers });
+    }
+
+    const members = users as User[];
+    const insights = await Promise.all(members.map(user => storage.getInsight(user.id)));
+    const missingInsights = members.filter((_, i) => !insights[i]).map(user => user.twitterHandle);
+    if (missingInsights.length > 0) {
+      throw new RoomUnavailableError("Insights not found for some members", { missingInsights });
+    }
+
+    const memberHandles = members.map(user => user.twitterHandle);
+    const result = await analysis.analyzeRoom(question, members.map((user, i) => ({
+      handle: user.twitterHandle,
+      description: describeInsight(insights[i]!)
+    })));
+
+    log(`Analysed room of ${members.length} members`, 'rooms');
+    return storage.createRoom(insertRoomSchema.parse({
+      question,
+      memberIds: members.map(user => user.id),
+      memberHandles,
+      result: sanitizeRoomResult(result, memberHandles),
+      ownerId,
+      createdAt: new Date()
+    }));
+  }
+
+  return { createRoomAnalysis };
+}
+
+export type RoomService = ReturnType<typeof createRoomService>;
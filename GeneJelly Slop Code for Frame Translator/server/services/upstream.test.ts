@@ -0,0 +1,190 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { getEventListeners } from "events";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { UpstreamClient, UpstreamUnavailableError, type UpstreamOptions } from "./upstream";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+const options: UpstreamOptions = {
+  timeoutMs: 200,
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 50,
+  failureThreshold: 2,
+  cooldownMs: 100
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Timers can fire a millisecond before Date.now() says they should, so leave some slack
+const waitOutCooldown = () => wait(options.cooldownMs + 20);
+
+describe("UpstreamClient", () => {
+  let server: Server;
+  let url: string;
+  let hits: number;
+  // Answers the stub's nth request (0-based); the last handler answers everything after it
+  let handlers: Handler[];
+
+  const status = (code: number, headers: Record<string, string> = {}): Handler => (_req, res) => {
+    res.writeHead(code, headers).end(String(code));
+  };
+
+  beforeEach(async () => {
+    hits = 0;
+    handlers = [status(200)];
+    server = createServer((req, res) => handlers[Math.min(hits++, handlers.length - 1)](req, res));
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("retries transient failures", async () => {
+    handlers = [status(503), status(502), status(200)];
+    const client = new UpstreamClient("stub", options);
+
+    const response = await client.fetch(url);
+
+    expect(response.status).toBe(200);
+    expect(hits).toBe(3);
+  });
+
+  it("returns other error responses without retrying", async () => {
+    handlers = [status(404)];
+    const client = new UpstreamClient("stub", options);
+
+    const response = await client.fetch(url);
+
+    expect(response.status).toBe(404);
+    expect(hits).toBe(1);
+  });
+
+  it("gives up when Retry-After is longer than it is willing to wait", async () => {
+    handlers = [status(429, { "Retry-After": "30" })];
+    const client = new UpstreamClient("stub", options);
+
+    const error = await client.fetch(url).catch(e => e);
+
+    expect(error).toBeInstanceOf(UpstreamUnavailableError);
+    expect(error.retryAfterSeconds).toBe(30);
+    expect(hits).toBe(1);
+  });
+
+  it("times out an upstream that doesn't answer", async () => {
+    handlers = [() => undefined];
+    const client = new UpstreamClient("stub", { ...options, maxRetries: 0, timeoutMs: 50 });
+
+    await expect(client.fetch(url)).rejects.toThrow(/did not respond within 50ms/);
+  });
+
+  it("opens the circuit after repeated failures and refuses calls during the cooldown", async () => {
+    handlers = [status(503)];
+    const client = new UpstreamClient("stub", { ...options, maxRetries: 0 });
+
+    await expect(client.fetch(url)).rejects.toBeInstanceOf(UpstreamUnavailableError);
+    await expect(client.fetch(url)).rejects.toBeInstanceOf(UpstreamUnavailableError);
+    expect(hits).toBe(2);
+
+    await expect(client.fetch(url)).rejects.toThrow(/temporarily unavailable/);
+    expect(hits).toBe(2);
+  });
+
+  it("lets a single trial request through once the cooldown is over", async () => {
+    const client = new UpstreamClient("stub", { ...options, maxRetries: 0 });
+    handlers = [status(503), status(503), (_req, res) => setTimeout(() => res.writeHead(200).end(), 50)];
+    await client.fetch(url).catch(() => undefined);
+    await client.fetch(url).catch(() => undefined);
+    await waitOutCooldown();
+
+    const results = await Promise.allSettled([client.fetch(url), client.fetch(url), client.fetch(url)]);
+
+    expect(results.map(r => r.status)).toEqual(["fulfilled", "rejected", "rejected"]);
+    expect(hits).toBe(3);
+    // The trial succeeded, so the circuit is closed again
+    expect((await client.fetch(url)).status).toBe(200);
+  });
+
+  it("opens the circuit again when the trial request fails", async () => {
+    const client = new UpstreamClient("stub", { ...options, maxRetries: 0 });
+    handlers = [status(503)];
+    await client.fetch(url).catch(() => undefined);
+    await client.fetch(url).catch(() => undefined);
+    await waitOutCooldown();
+
+    await expect(client.fetch(url)).rejects.toThrow(/is unavailable/);
+    await expect(client.fetch(url)).rejects.toThrow(/temporarily unavailable/);
+    expect(hits).toBe(3);
+  });
+
+  it("frees the trial for another caller when its caller aborts", async () => {
+    const client = new UpstreamClient("stub", { ...options, maxRetries: 0 });
+    handlers = [status(503), status(503), () => undefined, status(200)];
+    await client.fetch(url).catch(() => undefined);
+    await client.fetch(url).catch(() => undefined);
+    await waitOutCooldown();
+
+    const controller = new AbortController();
+    const trial = client.fetch(url, { signal: controller.signal });
+    await wait(10);
+    controller.abort(new Error("client went away"));
+    await expect(trial).rejects.toThrow("client went away");
+
+    expect((await client.fetch(url)).status).toBe(200);
+  });
+
+  it("stops waiting between retries when the caller aborts", async () => {
+    handlers = [status(503, { "Retry-After": "0.04" })];
+    const client = new UpstreamClient("stub", options);
+    const controller = new AbortController();
+
+    const pending = client.fetch(url, { signal: controller.signal });
+    await wait(20);
+    controller.abort(new Error("cancelled"));
+
+    await expect(pending).rejects.toThrow("cancelled");
+    expect(hits).toBe(1);
+  });
+
+  it("closes a streamed body when the caller aborts partway through", async () => {
+    let closed: () => void;
+    const connectionClosed = new Promise<void>(resolve => { closed = resolve; });
+    let chunks = 0;
+    handlers = [(req, res) => {
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      const ticker = setInterval(() => res.write(`data: ${chunks++}\n\n`), 20);
+      req.socket.once("close", () => {
+        clearInterval(ticker);
+        closed();
+      });
+    }];
+    const client = new UpstreamClient("stub", options);
+    const controller = new AbortController();
+
+    const response = await client.fetch(url, { signal: controller.signal });
+    const reader = response.body!.getReader();
+    await reader.read();
+    controller.abort(new Error("client went away"));
+
+    await expect(reader.read()).rejects.toThrow("client went away");
+    await connectionClosed;
+    const sentByAbort = chunks;
+    await wait(100);
+    expect(chunks).toBe(sentByAbort);
+  });
+
+  it("leaves no abort listeners on the caller's signal", async () => {
+    handlers = [status(503), status(503), status(200)];
+    const client = new UpstreamClient("stub", options);
+    const controller = new AbortController();
+
+    await client.fetch(url, { signal: controller.signal });
+
+    expect(hits).toBe(3);
+    expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+  });
+});
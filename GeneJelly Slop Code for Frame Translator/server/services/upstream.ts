@@ -0,0 +1,256 @@
+import { configDefaults, type Config } from "../config";
+import { getRequestContext } from "../context";
+import { UpstreamFailure } from "../errors";
+import { upstreamRequestDuration } from "../metrics";
+import { log } from "../utils";
+
+/**
+ * An upstream service answered, but not successfully
+ */
+export class UpstreamError extends UpstreamFailure {
+  constructor(service: string, readonly upstreamStatus: number | null, message: string) {
+    super(502, "UPSTREAM_ERROR", service, message, { upstreamStatus });
+  }
+}
+
+/**
+ * An upstream service is down, rate-limiting us, or its circuit breaker is open
+ */
+export class UpstreamUnavailableError extends UpstreamFailure {
+  constructor(service: string, readonly retryAfterSeconds: number, message: string) {
+    super(503, "UPSTREAM_UNAVAILABLE", service, message, { retryAfterSeconds });
+  }
+}
+
+export interface UpstreamOptions {
+  // Time allowed until response headers arrive, per attempt
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Consecutive failed calls before the circuit opens
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  cooldownMs: number;
+}
+
+// Statuses worth retrying: timeouts, rate limits and server-side hiccups
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * Parses Retry-After, which is either a number of seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    // The listener goes once the sleep is over, so long-lived signals don't collect one per retry
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// What a caller turned away while the trial request is in flight is told to wait
+const PROBE_WAIT_MS = 1000;
+
+/**
+ * Closed until `threshold` calls in a row fail, then open for `cooldownMs`. After that it is
+ * half open: a single trial call goes through while the rest are still refused. The trial
+ * closes the circuit if it succeeds and opens it for another cooldown if it fails.
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  /**
+   * Asks to make a call. `waitMs` is 0 when it may go ahead; `probe` marks the half-open trial,
+   * which must end in recordSuccess, recordFailure or abandonProbe.
+   */
+  acquire(): { waitMs: number; probe: boolean } {
+    if (this.openedAt === null) return { waitMs: 0, probe: false };
+    const remaining = this.openedAt + this.cooldownMs - Date.now();
+    if (remaining > 0) return { waitMs: remaining, probe: false };
+    if (this.probing) return { waitMs: PROBE_WAIT_MS, probe: false };
+    this.probing = true;
+    return { waitMs: 0, probe: true };
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  // Returns true when this failure opened the circuit
+  recordFailure(probe: boolean): boolean {
+    this.failures++;
+    if (probe) {
+      this.probing = false;
+      this.openedAt = Date.now();
+      return true;
+    }
+    if (this.failures >= this.threshold && this.openedAt === null) {
+      this.openedAt = Date.now();
+      return true;
+    }
+    return false;
+  }
+
+  // The trial ended without telling us anything about the upstream, e.g. its caller aborted
+  abandonProbe(): void {
+    this.probing = false;
+  }
+}
+
+/**
+ * fetch wrapper for one upstream service: per-attempt timeouts, retries with exponential
+ * backoff and jitter for transient failures, Retry-After handling and a circuit breaker.
+ * Non-transient error responses (e.g. 400, 404) are returned to the caller untouched.
+ */
+export class UpstreamClient {
+  private breaker: CircuitBreaker;
+
+  constructor(readonly name: string, private options: UpstreamOptions) {
+    this.breaker = new CircuitBreaker(options.failureThreshold, options.cooldownMs);
+  }
+
+  private backoff(attempt: number, retryAfterMs?: number): number {
+    const exponential = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+    // Full jitter spreads retries from concurrent requests apart
+    const jittered = Math.random() * exponential;
+    return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+  }
+
+  private async attempt(url: string, init: RequestInit): Promise<Response> {
+    init.signal?.throwIfAborted();
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new Error(`${this.name} did not respond within ${this.options.timeoutMs}ms`)),
+      this.options.timeoutMs,
+    );
+    // The caller's signal stays linked for as long as the response body is read, so aborting it
+    // mid-stream closes the connection and the upstream stops generating
+    const signal = init.signal ? AbortSignal.any([init.signal, controller.signal]) : controller.signal;
+
+    // Lets the upstream's logs be matched with ours
+    const headers = new Headers(init.headers);
+    const requestId = getRequestContext()?.requestId;
+    if (requestId && !headers.has("x-request-id")) {
+      headers.set("X-Request-Id", requestId);
+    }
+
+    const start = process.hrtime.bigint();
+    let outcome = "error";
+    try {
+      const response = await fetch(url, { ...init, headers, signal });
+      outcome = String(response.status);
+      return response;
+    } finally {
+      upstreamRequestDuration.observe({ service: this.name, outcome }, Number(process.hrtime.bigint() - start) / 1e9);
+      // Only the wait for headers is timed, so streamed bodies can take as long as they need
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * @throws UpstreamUnavailableError when the circuit is open or transient failures outlast the retries
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const { waitMs, probe } = this.breaker.acquire();
+    if (waitMs > 0) {
+      throw new UpstreamUnavailableError(this.name, Math.ceil(waitMs / 1000), `${this.name} is temporarily unavailable`);
+    }
+
+    try {
+      return await this.fetchWithRetries(url, init, probe);
+    } catch (error) {
+      // Unavailability has been recorded; anything else (an abort) frees the trial for another caller
+      if (probe && !(error instanceof UpstreamUnavailableError)) this.breaker.abandonProbe();
+      throw error;
+    }
+  }
+
+  private async fetchWithRetries(url: string, init: RequestInit, probe: boolean): Promise<Response> {
+    let lastFailure = "";
+    let retryAfterMs: number | undefined;
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) {
+        const delay = this.backoff(attempt - 1, retryAfterMs);
+        // Don't sit on a request for longer than the upstream's own back-off window allows
+        if (delay > this.options.maxDelayMs) break;
+        await sleep(delay, init.signal ?? undefined);
+      }
+
+      try {
+        const response = await this.attempt(url, init);
+        if (!TRANSIENT_STATUSES.has(response.status)) {
+          this.breaker.recordSuccess();
+          return response;
+        }
+
+        retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+        lastFailure = `HTTP ${response.status}`;
+        // Release the connection before retrying
+        await response.body?.cancel().catch(() => undefined);
+      } catch (error) {
+        if (init.signal?.aborted) throw error;
+        retryAfterMs = undefined;
+        lastFailure = error instanceof Error ? error.message : String(error);
+      }
+
+      log(`${this.name} attempt ${attempt + 1} failed: ${lastFailure}`, 'upstream', 'warn');
+    }
+
+    if (this.breaker.recordFailure(probe)) {
+      log(`${this.name} circuit opened for ${this.options.cooldownMs}ms`, 'upstream', 'error');
+    }
+
+    const retryAfterSeconds = Math.ceil((retryAfterMs ?? this.options.cooldownMs) / 1000);
+    throw new UpstreamUnavailableError(this.name, retryAfterSeconds, `${this.name} is unavailable (${lastFailure})`);
+  }
+}
+
+const defaults: Record<string, UpstreamOptions> = {
+  archive: { timeoutMs: 10_000, maxRetries: 2, baseDelayMs: 250, maxDelayMs: 5_000, failureThreshold: 5, cooldownMs: 30_000 },
+  // Models can take a while before the first byte
+  llm: { timeoutMs: 60_000, maxRetries: 2, baseDelayMs: 1_000, maxDelayMs: 20_000, failureThreshold: 5, cooldownMs: 60_000 }
+};
+
+/**
+ * One client per named upstream ("archive", "gemini", "anthropic", "openai"), so everything
+ * calling the same service shares its circuit breaker. Configured overrides
+ * (UPSTREAM_<NAME>_TIMEOUT_MS and friends) fall back to the archive or LLM defaults.
+ */
+export class Upstreams {
+  private clients = new Map<string, UpstreamClient>();
+
+  constructor(private overrides: Config["upstream"] = configDefaults("upstream")) {}
+
+  get(name: string): UpstreamClient {
+    let client = this.clients.get(name);
+    if (!client) {
+      const configured = this.overrides[name as keyof Config["upstream"]] ?? {};
+      client = new UpstreamClient(name, { ...(defaults[name] ?? defaults.llm), ...configured });
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,168 @@
+import type { UsageTotals } from "@shared/schema";
+import type { Config } from "../config";
+import { getRequestContext } from "../context";
+import { QuotaError } from "../errors";
+import { llmCost, llmTokens } from "../metrics";
+import type { IStorage } from "../storage";
+import { log } from "../utils";
+import type { ProviderName } from "./llm/types";
+
+/**
+ * An account has used up one of its daily LLM quotas
+ */
+export class QuotaExceededError extends QuotaError {
+  constructor(readonly quota: "tokens" | "cost", readonly limit: number, readonly used: number, retryAfterSeconds: number) {
+    super(
+      "QUOTA_EXCEEDED",
+      `Daily LLM ${quota === "tokens" ? "token" : "cost"} quota used up; it resets at midnight UTC`,
+      retryAfterSeconds,
+      { quota, limit, used }
+    );
+  }
+}
+
+export interface QuotaSettings {
+  // Input plus output tokens per account per UTC day; 0 for no limit
+  dailyTokens: number;
+  dailyCostUsd: number;
+}
+
+export interface UsageSummary {
+  periodStart: string;
+  resetsAt: string;
+  calls: number;
+  tokens: { used: number; limit: number | null; remaining: number | null };
+  costUsd: { used: number; limit: number | null; remaining: number | null };
+}
+
+// USD per million input and output tokens, for each provider's default model
+const defaultPricing: Record<ProviderName, { input: number; output: number }> = {
+  gemini: { input: 1.25, output: 5 },
+  anthropic: { input: 3, output: 15 },
+  openai: { input: 0.15, output: 0.6 },
+  fake: { input: 0, output: 0 }
+};
+
+/**
+ * Cheap token estimate (about four characters per token for English text).
+ * Good enough for budgeting; providers report the real usage afterwards.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Records LLM usage and enforces the daily quotas (usage.dailyTokens, usage.dailyCostUsd) per account
+ */
+export function createUsageService(settings: Config["usage"], storage: IStorage) {
+  /**
+   * Estimated cost of a call. Configured pricing (LLM_<PROVIDER>_INPUT_COST_PER_MTOK and
+   * _OUTPUT_COST_PER_MTOK) overrides the built-in rates, e.g. when a task runs on a different model.
+   */
+  function estimateCost(provider: ProviderName, inputTokens: number, outputTokens: number): number {
+    const input = settings.pricing[provider].input ?? defaultPricing[provider].input;
+    const output = settings.pricing[provider].output ?? defaultPricing[provider].output;
+    return (inputTokens * input + outputTokens * output) / 1_000_000;
+  }
+
+  /**
+   * What an account has used today and what it has left
+   */
+  async function getUsageSummary(accountId: number, now: Date = new Date()): Promise<UsageSummary> {
+    const start = startOfUtcDay(now);
+    const totals: UsageTotals = await storage.getLLMUsageTotals(accountId, start);
+    const { dailyTokens, dailyCostUsd } = settings;
+    const tokens = totals.inputTokens + totals.outputTokens;
+
+    return {
+      periodStart: start.toISOString(),
+      resetsAt: new Date(start.getTime() + 86_400_000).toISOString(),
+      calls: totals.calls,
+      tokens: {
+        used: tokens,
+        limit: dailyTokens > 0 ? dailyTokens : null,
+        remaining: dailyTokens > 0 ? Math.max(0, dailyTokens - tokens) : null
+      },
+      costUsd: {
+        used: totals.costUsd,
+        limit: dailyCostUsd > 0 ? dailyCostUsd : null,
+        remaining: dailyCostUsd > 0 ? Math.max(0, dailyCostUsd - totals.costUsd) : null
+      }
+    };
+  }
+
+  /**
+   * Checks an account still has quota left today. Calls already in flight may take it
+   * slightly over; the next call is refused.
+   * @throws QuotaExceededError once either daily quota is used up
+   */
+  async function assertWithinQuota(accountId: number): Promise<void> {
+    const summary = await getUsageSummary(accountId);
+    const retryAfterSeconds = Math.ceil((Date.parse(summary.resetsAt) - Date.now()) / 1000);
+
+    if (summary.tokens.remaining === 0) {
+      throw new QuotaExceededError("tokens", summary.tokens.limit!, summary.tokens.used, retryAfterSeconds);
+    }
+    if (summary.costUsd.remaining === 0) {
+      throw new QuotaExceededError("cost", summary.costUsd.limit!, summary.costUsd.used, retryAfterSeconds);
+    }
+  }
+
+  return {
+    quotaSettings(): QuotaSettings {
+      return { dailyTokens: settings.dailyTokens, dailyCostUsd: settings.dailyCostUsd };
+    },
+    estimateCost,
+    getUsageSummary,
+    assertWithinQuota,
+
+    /**
+     * Records a call's usage against the account on the current request or job context.
+     * Never throws: losing a usage record isn't worth failing the call that already happened.
+     */
+    async recordUsage(call: {
+      task: string;
+      provider: ProviderName;
+      model: string;
+      inputTokens: number;
+      outputTokens: number;
+      estimated?: boolean;
+    }): Promise<void> {
+      const costUsd = estimateCost(call.provider, call.inputTokens, call.outputTokens);
+      const labels = { task: call.task, provider: call.provider, model: call.model };
+      llmTokens.inc({ ...labels, direction: "input" }, call.inputTokens);
+      llmTokens.inc({ ...labels, direction: "output" }, call.outputTokens);
+      llmCost.inc(labels, costUsd);
+
+      try {
+        await storage.recordLLMUsage({
+          ...call,
+          accountId: getRequestContext()?.accountId ?? null,
+          costUsd,
+          estimated: call.estimated ?? false,
+          createdAt: new Date()
+        });
+      } catch (error) {
+        log(`Could not record LLM usage: ${error}`, 'usage', 'error');
+      }
+    },
+
+    /**
+     * Checks the quota of the account on the current request or job context, if there is one.
+     * Called before every provider call, so long requests and jobs stop once the quota runs out.
+     * @throws QuotaExceededError once either daily quota is used up
+     */
+    async assertContextWithinQuota(): Promise<void> {
+      const accountId = getRequestContext()?.accountId;
+      if (accountId !== undefined && accountId !== null) {
+        await assertWithinQuota(accountId);
+      }
+    }
+  };
+}
+
+export type UsageService = ReturnType<typeof createUsageService>;
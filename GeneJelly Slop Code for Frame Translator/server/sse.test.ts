@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp } from "./testing";
+import { FakeProvider, type LLMRequestOptions } from "./services/llm";
+import { defaultFakeResponder, type FakeResponder } from "./services/llm/fake";
+
+interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+function parseEvents(text: string): StreamEvent[] {
+  return text.split("\n\n").filter(Boolean).map(block => {
+    const event = /^event: (.*)$/m.exec(block)?.[1] ?? "message";
+    const data = /^data: (.*)$/m.exec(block)?.[1];
+    return { event, data: data === undefined ? undefined : JSON.parse(data) };
+  });
+}
+
+// Counts the chunks it streams, so a test can tell whether a stream was cut short
+class CountingProvider extends FakeProvider {
+  streamed = 0;
+
+  async *stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    for await (const chunk of super.stream(prompt, options)) {
+      this.streamed++;
+      yield chunk;
+    }
+  }
+}
+
+// Like a provider that doesn't wire up options.signal, so only the route can stop the stream
+class SignalBlindProvider extends CountingProvider {
+  stream(prompt: string, options: LLMRequestOptions = {}): AsyncGenerator<string> {
+    return super.stream(prompt, { ...options, signal: undefined });
+  }
+}
+
+const LONG_TRANSLATION = Array.from({ length: 500 }, (_, i) => `word${i}`).join(" ");
+
+// Long free-text answers for translations; structured prompts get their JSON template back
+const longTranslations: FakeResponder = (prompt, options) =>
+  prompt.includes("Respond with the translated text only") ? LONG_TRANSLATION : defaultFakeResponder(prompt, options);
+
+async function startStreamingApp(responder: FakeResponder = defaultFakeResponder, llm = new CountingProvider(responder)) {
+  const app = await startTestApp({ llm });
+  for (const handle of ["alice", "bob"]) {
+    app.archive.addAccount({ username: handle });
+    for (let i = 0; i < 5; i++) {
+      app.archive.addTweet(handle, { full_text: `${handle} has been thinking about frames again, part ${i}`, favorite_count: i });
+    }
+  }
+  await app.signIn();
+  return { app, llm };
+}
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs: number = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe("event streams", () => {
+  let app: TestApp;
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe("POST /api/translate/stream", () => {
+    it("sends the frames, then the translation token by token, then the saved translation", async () => {
+      ({ app } = await startStreamingApp());
+
+      const response = await app.request("POST", "/api/translate/stream", { sourceText: "hello world", targetHandle: "alice" });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("text/event-stream");
+      const events = parseEvents(response.body);
+      const names = events.map(e => e.event);
+      expect(names[0]).toBe("frame");
+      expect(names.at(-1)).toBe("done");
+      expect(names.slice(1, -1).every(name => name === "token")).toBe(true);
+      expect(names.length).toBeGreaterThan(2);
+
+      const [frame] = events;
+      const done = events.at(-1)!;
+      const text = events.filter(e => e.event === "token").map(e => e.data.text).join("");
+      expect(frame.data).toEqual({ sourceFrame: "name of detected frame", targetFrame: "name of target frame" });
+      expect(done.data).toMatchObject({ ...frame.data, sourceText: "hello world", targetHandle: "alice", translation: text.trim() });
+      expect(done.data.exemplars.length).toBeGreaterThan(0);
+
+      const stored = await app.request("GET", `/api/translations/${done.data.id}`);
+      expect(stored.body.translation).toBe(text.trim());
+    });
+
+    it("answers with a plain error before the stream opens", async () => {
+      ({ app } = await startStreamingApp());
+
+      const response = await app.request("POST", "/api/translate/stream", { sourceText: "hello", targetHandle: "nobody" });
+
+      expect(response.status).toBe(404);
+      expect(response.body.code).toBe("ARCHIVE_ACCOUNT_NOT_FOUND");
+    });
+
+    it("stops generating and saves nothing when the client disconnects", async () => {
+      let llm: CountingProvider;
+      ({ app, llm } = await startStreamingApp(longTranslations, new SignalBlindProvider(longTranslations)));
+
+      await disconnectAfterFirstToken(app, "/api/translate/stream", { sourceText: "hello world", targetHandle: "alice" });
+
+      // The cut-short stream is still charged, with its usage estimated
+      await waitFor(async () => (await app.request("GET", "/api/usage")).body.calls === 2);
+      expect(llm.streamed).toBeLessThan(LONG_TRANSLATION.split(" ").length);
+      expect((await app.request("GET", "/api/translations")).body).toEqual([]);
+    });
+  });
+
+  describe("POST /api/comparisons/stream", () => {
+    async function trackWithInsights(...handles: string[]): Promise<number[]> {
+      const ids: number[] = [];
+      for (const handle of handles) {
+        const created = await app.request("POST", "/api/users", { username: handle, twitterHandle: handle });
+        await app.request("GET", `/api/users/${handle}/insights`);
+        ids.push(created.body.id);
+      }
+      return ids;
+    }
+
+    it("streams the raw output, then sends the saved comparison", async () => {
+      ({ app } = await startStreamingApp());
+      const [userAId, userBId] = await trackWithInsights("alice", "bob");
+
+      const response = await app.request("POST", "/api/comparisons/stream", { userAId, userBId, argument: "taxes" });
+
+      const events = parseEvents(response.body);
+      const done = events.at(-1)!;
+      expect(done.event).toBe("done");
+      expect(events.slice(0, -1).every(e => e.event === "token")).toBe(true);
+      expect(JSON.parse(events.slice(0, -1).map(e => e.data.text).join(""))).toEqual(done.data.result);
+      expect(done.data).toMatchObject({ userAId, userBId, argumentText: "taxes" });
+    });
+
+    it("stops generating and saves nothing when the client disconnects", async () => {
+      const responder: FakeResponder = (prompt, options) =>
+        prompt.includes("argument or topic") ? LONG_TRANSLATION : defaultFakeResponder(prompt, options);
+      let llm: CountingProvider;
+      ({ app, llm } = await startStreamingApp(responder, new SignalBlindProvider(responder)));
+      const [userAId, userBId] = await trackWithInsights("alice", "bob");
+      const callsBefore = llm.calls.length;
+      const streamedBefore = llm.streamed;
+
+      await disconnectAfterFirstToken(app, "/api/comparisons/stream", { userAId, userBId, argument: "taxes" });
+
+      await waitFor(async () => (await app.request("GET", "/api/usage")).body.calls === callsBefore + 1);
+      expect(llm.streamed - streamedBefore).toBeLessThan(LONG_TRANSLATION.split(" ").length);
+      // The cut-short output is never parsed, so there is no repair call and nothing cached or saved
+      expect(llm.calls).toHaveLength(callsBefore + 1);
+      expect((await app.request("GET", "/api/comparisons")).body).toEqual([]);
+    });
+
+    it("reports output that never validates as an error event", async () => {
+      ({ app } = await startStreamingApp((prompt, options) =>
+        prompt.includes("argument or topic") || prompt.includes("previous response") ? "not json" : defaultFakeResponder(prompt, options)
+      ));
+      const [userAId, userBId] = await trackWithInsights("alice", "bob");
+
+      const response = await app.request("POST", "/api/comparisons/stream", { userAId, userBId });
+
+      expect(response.status).toBe(200);
+      const last = parseEvents(response.body).at(-1)!;
+      expect(last.event).toBe("error");
+      expect(last.data.code).toBe("LLM_INVALID_OUTPUT");
+      expect((await app.request("GET", "/api/comparisons")).body).toEqual([]);
+    });
+  });
+});
+
+// Opens an event stream with fetch, reads until the first token arrives, then hangs up
+async function disconnectAfterFirstToken(app: TestApp, path: string, body: unknown) {
+  const controller = new AbortController();
+  const response = await fetch(`${app.baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: await tokenFor(app) },
+    body: JSON.stringify(body),
+    signal: controller.signal
+  });
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let received = "";
+  while (!received.includes("event: token")) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    received += decoder.decode(value, { stream: true });
+  }
+  controller.abort();
+}
+
+// The bearer token TestApp.request signs in with, for requests made with fetch directly
+async function tokenFor(app: TestApp): Promise<string> {
+  const created = await app.request<{ token: string }>("POST", "/api/tokens", { name: "stream" });
+  return `Bearer ${created.body.token}`;
+}
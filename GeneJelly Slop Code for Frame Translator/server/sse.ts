@@ -0,0 +1,44 @@
+import type { Request, Response } from "express";
+
+export interface EventStream {
+  // Aborted when the client disconnects before the stream ends
+  readonly signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  end(): void;
+}
+
+/**
+ * Switches a response to server-sent events. Once opened, errors have to be reported
+ * as events because the status code has already been sent.
+ */
+export function openEventStream(req: Request, res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    // Stop reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no"
+  });
+  res.flushHeaders();
+
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+    send(event, data) {
+      if (res.writableEnded || controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    end() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+}
@@ -0,0 +1,386 @@
+import { PGlite } from "@electric-sql/pglite";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import { fileURLToPath } from "url";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import type { Account, InsertComparison, InsertJob, InsertTranslation, User } from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+interface Backend {
+  name: string;
+  // Called once per suite; `fresh` then hands out empty storage for each test
+  open(): Promise<{ fresh(): Promise<IStorage>; close(): Promise<void> }>;
+}
+
+// Postgres compiled to WebAssembly, migrated with the committed migrations and emptied between tests
+const pglite: Backend = {
+  name: "DbStorage (pglite)",
+  async open() {
+    const client = new PGlite();
+    const db = drizzle({ client, schema });
+    await migrate(db, { migrationsFolder: fileURLToPath(new URL("../migrations", import.meta.url)) });
+    const { rows } = await client.query<{ tablename: string }>("select tablename from pg_tables where schemaname = 'public'");
+    const tables = rows.map(row => `"${row.tablename}"`).join(", ");
+
+    return {
+      async fresh() {
+        await db.execute(sql.raw(`truncate ${tables} restart identity cascade`));
+        return new DbStorage(db);
+      },
+      close: () => client.close()
+    };
+  }
+};
+
+const memory: Backend = {
+  name: "MemStorage",
+  async open() {
+    return { fresh: async () => new MemStorage(), close: async () => {} };
+  }
+};
+
+const HOUR = 3_600_000;
+const at = (hours: number) => new Date(Date.UTC(2024, 0, 1) + hours * HOUR);
+
+describe.each([memory, pglite])("$name", (backend) => {
+  let opened: Awaited<ReturnType<Backend["open"]>>;
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    opened = await backend.open();
+  });
+
+  afterAll(async () => {
+    await opened.close();
+  });
+
+  beforeEach(async () => {
+    storage = await opened.fresh();
+  });
+
+  const createAccount = (username: string = "ada"): Promise<Account> =>
+    storage.createAccount({ username, passwordHash: "hash", createdAt: at(0) });
+
+  const createUser = (handle: string): Promise<User> =>
+    storage.createUser({ username: handle, twitterHandle: handle });
+
+  describe("accounts and tokens", () => {
+    it("assigns ids and finds accounts by id and username", async () => {
+      const ada = await createAccount("ada");
+      const bea = await createAccount("bea");
+
+      expect(ada.id).not.toBe(bea.id);
+      expect(await storage.getAccount(ada.id)).toEqual(ada);
+      expect(await storage.getAccountByUsername("bea")).toEqual(bea);
+      expect(await storage.getAccountByUsername("nobody")).toBeUndefined();
+    });
+
+    it("rejects a username that is taken", async () => {
+      await createAccount("ada");
+
+      await expect(createAccount("ada")).rejects.toThrow();
+    });
+
+    it("finds tokens by hash until they are revoked", async () => {
+      const ada = await createAccount();
+      const token = await storage.createApiToken({ accountId: ada.id, name: "cli", tokenHash: "abc", createdAt: at(0) });
+      expect(token).toMatchObject({ lastUsedAt: null, revokedAt: null });
+      expect(await storage.getApiTokenByHash("abc")).toEqual(token);
+
+      const revoked = await storage.updateApiToken(token.id, { revokedAt: at(1) });
+
+      expect(revoked.revokedAt).toEqual(at(1));
+      expect(await storage.getApiTokenByHash("abc")).toBeUndefined();
+      expect(await storage.getApiTokens(ada.id)).toEqual([revoked]);
+    });
+
+    it("refuses to update a token that doesn't exist", async () => {
+      await expect(storage.updateApiToken(999, { name: "gone" })).rejects.toThrow("API token not found: 999");
+    });
+  });
+
+  describe("users and insights", () => {
+    it("finds users by id, by handle case-insensitively and by username", async () => {
+      const user = await createUser("Alice");
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByTwitterHandle("ALICE")).toEqual(user);
+      expect(await storage.getUserByUsername("Alice")).toEqual(user);
+      expect(await storage.getUserByUsername("alice")).toBeUndefined();
+    });
+
+    it("rejects a username that is taken", async () => {
+      await createUser("alice");
+
+      await expect(createUser("alice")).rejects.toThrow();
+    });
+
+    it("updates an insight in place and keeps its versions in order", async () => {
+      const user = await createUser("alice");
+      const content = { description: "d", lifeExperiences: ["a"], concepts: ["b"], subcultures: ["c"], writingStyle: "w" };
+      const insight = await storage.createInsight({ userId: user.id, ...content, lastUpdated: at(0) });
+      expect(insight).toMatchObject({ version: 1, sourceTweetIds: [] });
+
+      const updated = await storage.updateInsight(insight.id, { description: "d2", version: 2, lastUpdated: at(1) });
+      await storage.createInsightVersion({ insightId: insight.id, userId: user.id, version: 2, ...content, createdAt: at(1) });
+      await storage.createInsightVersion({ insightId: insight.id, userId: user.id, version: 1, ...content, createdAt: at(0) });
+
+      expect(updated).toMatchObject({ id: insight.id, description: "d2", version: 2, lastUpdated: at(1), concepts: ["b"] });
+      expect(await storage.getInsight(user.id)).toEqual(updated);
+      expect((await storage.getInsightVersions(user.id)).map(v => v.version)).toEqual([1, 2]);
+    });
+  });
+
+  describe("comparisons and rooms", () => {
+    const comparison = (fields: Partial<InsertComparison>): InsertComparison => ({
+      argumentText: "taxes",
+      explanation: "",
+      createdAt: at(0),
+      ...fields
+    });
+
+    it("lists comparisons newest first, filtered by user, owner and search", async () => {
+      const [alice, bob, carol] = [await createUser("alice"), await createUser("bob"), await createUser("carol")];
+      const ada = await createAccount("ada");
+      const bea = await createAccount("bea");
+      const mine = await storage.createComparison(comparison({ userAId: alice.id, userBId: bob.id, ownerId: ada.id }));
+      const unowned = await storage.createComparison(comparison({ userAId: bob.id, userBId: carol.id, argumentText: "housing" }));
+      const theirs = await storage.createComparison(comparison({
+        userAId: alice.id,
+        userBId: carol.id,
+        ownerId: bea.id,
+        result: { sharedValues: ["Fairness"], disagreements: [], vocabularyDifferences: [], bridgingStatement: "b", suggestedNextStep: "s" }
+      }));
+
+      const ids = (list: { id: number }[]) => list.map(c => c.id);
+      expect(ids(await storage.listComparisons())).toEqual([theirs.id, unowned.id, mine.id]);
+      expect(ids(await storage.listComparisons({ userId: alice.id }))).toEqual([theirs.id, mine.id]);
+      expect(ids(await storage.listComparisons({ ownerId: ada.id }))).toEqual([unowned.id, mine.id]);
+      expect(ids(await storage.listComparisons({ search: "HOUS" }))).toEqual([unowned.id]);
+      expect(ids(await storage.listComparisons({ search: "fairness" }))).toEqual([theirs.id]);
+      expect(ids(await storage.listComparisons({ limit: 1, offset: 1 }))).toEqual([unowned.id]);
+      expect(ids(await storage.getComparisonsByUser(carol.id)).sort()).toEqual([unowned.id, theirs.id].sort());
+    });
+
+    it("finds a user's rooms, leaving out other accounts' rooms", async () => {
+      const ada = await createAccount("ada");
+      const bea = await createAccount("bea");
+      const result = { clusters: [], consensus: [], splits: [], introductions: [], summary: "s" };
+      const room = (memberIds: number[], ownerId: number | null, hours: number) =>
+        storage.createRoom({ question: "q", memberIds, memberHandles: [], result, ownerId, createdAt: at(hours) });
+      const older = await room([1, 2], ada.id, 0);
+      const newer = await room([2, 3], null, 1);
+      await room([2], bea.id, 2);
+      await room([3], ada.id, 3);
+
+      expect((await storage.getRoomsByUser(2, ada.id)).map(r => r.id)).toEqual([newer.id, older.id]);
+      expect(await storage.getRoomsByUser(2)).toHaveLength(3);
+      expect(await storage.getRoom(older.id)).toEqual(older);
+    });
+  });
+
+  describe("translations", () => {
+    const translation = (fields: Partial<InsertTranslation>): InsertTranslation => ({
+      sourceText: "hello",
+      targetHandle: "alice",
+      sourceFrame: "engineering",
+      targetFrame: "poetry",
+      translation: "hi",
+      provider: "fake",
+      model: "fake-1",
+      createdAt: at(0),
+      ...fields
+    });
+
+    it("fills in defaults", async () => {
+      const created = await storage.createTranslation(translation({}));
+
+      expect(created).toMatchObject({ sourceHandle: null, sourceTweetId: null, insightId: null, exemplarTweetIds: [], glossary: [], ownerId: null });
+      expect(await storage.getTranslation(created.id)).toEqual(created);
+    });
+
+    it("filters on handles and frames case-insensitively, taking wildcards literally", async () => {
+      const first = await storage.createTranslation(translation({ sourceHandle: "Bob", createdAt: at(0) }));
+      const second = await storage.createTranslation(translation({ targetHandle: "a_ice", targetFrame: "Markets", createdAt: at(1) }));
+
+      const ids = (list: { id: number }[]) => list.map(t => t.id);
+      expect(ids(await storage.listTranslations())).toEqual([second.id, first.id]);
+      expect(ids(await storage.listTranslations({ sourceHandle: "bob" }))).toEqual([first.id]);
+      expect(ids(await storage.listTranslations({ targetHandle: "A_ICE" }))).toEqual([second.id]);
+      expect(ids(await storage.listTranslations({ targetHandle: "%" }))).toEqual([]);
+      expect(ids(await storage.listTranslations({ frame: "markets" }))).toEqual([second.id]);
+      expect(ids(await storage.listTranslations({ frame: "ENGINEERING" }))).toEqual([second.id, first.id]);
+    });
+  });
+
+  describe("jobs", () => {
+    const job = (fields: Partial<InsertJob> = {}): InsertJob => ({
+      type: "insight",
+      payload: { handle: "alice" },
+      runAt: at(0),
+      createdAt: at(0),
+      updatedAt: at(0),
+      ...fields
+    });
+
+    it("claims due jobs oldest first, once each", async () => {
+      const later = await storage.createJob(job({ runAt: at(2) }));
+      const first = await storage.createJob(job({ runAt: at(0) }));
+      const notDue = await storage.createJob(job({ runAt: at(10) }));
+      expect(first).toMatchObject({ status: "queued", attempts: 0, maxAttempts: 3, result: null, error: null });
+
+      const claimed = [await storage.claimNextJob(at(5)), await storage.claimNextJob(at(5)), await storage.claimNextJob(at(5))];
+
+      expect(claimed.map(j => j?.id)).toEqual([first.id, later.id, undefined]);
+      expect(claimed[0]).toMatchObject({ status: "running", attempts: 1, updatedAt: at(5) });
+      expect((await storage.getJob(notDue.id))!.status).toBe("queued");
+    });
+
+    it("finds the active job for a dedupe key", async () => {
+      const done = await storage.createJob(job({ dedupeKey: "k" }));
+      await storage.updateJob(done.id, { status: "succeeded", result: { ok: true } });
+      expect(await storage.findActiveJob("k")).toBeUndefined();
+
+      const active = await storage.createJob(job({ dedupeKey: "k" }));
+
+      expect((await storage.findActiveJob("k"))!.id).toBe(active.id);
+      expect((await storage.getJob(done.id))!.result).toEqual({ ok: true });
+    });
+
+    it("requeues stale running jobs, or fails them once out of attempts", async () => {
+      const retry = await storage.createJob(job({ status: "running", attempts: 1, updatedAt: at(0) }));
+      const spent = await storage.createJob(job({ status: "running", attempts: 3, updatedAt: at(0) }));
+      const recent = await storage.createJob(job({ status: "running", attempts: 1, updatedAt: at(5) }));
+
+      const recovered = await storage.recoverStaleJobs(at(1), at(6));
+
+      const statuses = Object.fromEntries(recovered.map(j => [j.id, j.status]));
+      expect(statuses).toEqual({ [retry.id]: "queued", [spent.id]: "failed" });
+      expect(recovered[0]).toMatchObject({ runAt: at(6), updatedAt: at(6), error: "Worker stopped while the job was running" });
+      expect((await storage.getJob(recent.id))!.status).toBe("running");
+    });
+
+    it("refuses to update a job that doesn't exist", async () => {
+      await expect(storage.updateJob(999, { status: "failed" })).rejects.toThrow("Job not found: 999");
+    });
+  });
+
+  describe("usage and cache", () => {
+    it("sums an account's usage since a time", async () => {
+      const ada = await createAccount("ada");
+      const bea = await createAccount("bea");
+      const usage = { task: "insights", provider: "fake", model: "fake-1" };
+      await storage.recordLLMUsage({ ...usage, accountId: ada.id, inputTokens: 10, outputTokens: 5, costUsd: 0.25, createdAt: at(0) });
+      await storage.recordLLMUsage({ ...usage, accountId: ada.id, inputTokens: 20, outputTokens: 7, costUsd: 0.5, estimated: true, createdAt: at(2) });
+      await storage.recordLLMUsage({ ...usage, accountId: bea.id, inputTokens: 99, outputTokens: 99, costUsd: 9, createdAt: at(2) });
+
+      expect(await storage.getLLMUsageTotals(ada.id, at(0))).toEqual({ calls: 2, inputTokens: 30, outputTokens: 12, costUsd: 0.75 });
+      expect(await storage.getLLMUsageTotals(ada.id, at(1))).toEqual({ calls: 1, inputTokens: 20, outputTokens: 7, costUsd: 0.5 });
+      expect(await storage.getLLMUsageTotals(ada.id, at(3))).toEqual({ calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+    });
+
+    it("replaces a cache entry under the same key", async () => {
+      await storage.setCacheEntry({ key: "k", value: { n: 1 }, expiresAt: at(1), createdAt: at(0) });
+      await storage.setCacheEntry({ key: "k", value: { n: 2 }, expiresAt: at(2), createdAt: at(1) });
+
+      expect(await storage.getCacheEntry("k")).toEqual({ key: "k", value: { n: 2 }, expiresAt: at(2), createdAt: at(1) });
+      expect(await storage.getCacheEntry("missing")).toBeUndefined();
+    });
+
+    it("deletes expired cache entries", async () => {
+      await storage.setCacheEntry({ key: "old", value: 1, expiresAt: at(1), createdAt: at(0) });
+      await storage.setCacheEntry({ key: "fresh", value: 2, expiresAt: at(3), createdAt: at(0) });
+
+      expect(await storage.deleteExpiredCacheEntries(at(2))).toBe(1);
+      expect(await storage.getCacheEntry("old")).toBeUndefined();
+      expect(await storage.getCacheEntry("fresh")).toMatchObject({ value: 2 });
+    });
+  });
+
+  describe("community archives", () => {
+    const archive = (importedBy: number | null, importedAt: Date = at(0)) => ({
+      accountId: "42",
+      username: "carol",
+      tweetCount: 0,
+      likeCount: 0,
+      importedBy,
+      importedAt
+    });
+
+    const tweet = (tweetId: string, hours: number, fields: Partial<schema.InsertArchiveTweet> = {}) => ({
+      tweetId,
+      fullText: `tweet ${tweetId}`,
+      favoriteCount: 0,
+      retweetCount: 0,
+      createdAt: at(hours),
+      ...fields
+    });
+
+    it("replaces only the importer's own copy of an account", async () => {
+      const ada = await createAccount("ada");
+      const cli = await storage.saveCommunityArchive(archive(null), [tweet("1", 0)], []);
+      const first = await storage.saveCommunityArchive(archive(ada.id), [tweet("1", 0)], []);
+      const second = await storage.saveCommunityArchive(archive(ada.id, at(1)), [tweet("2", 0)], []);
+
+      expect(await storage.getCommunityArchive(first.id)).toBeUndefined();
+      expect(await storage.getCommunityArchive(cli.id)).toEqual(cli);
+      expect(second).toMatchObject({ displayName: null, bio: null, accountCreatedAt: null, importedBy: ada.id });
+
+      const replacedCli = await storage.saveCommunityArchive(archive(null, at(2)), [], []);
+      expect(await storage.getCommunityArchive(cli.id)).toBeUndefined();
+      expect((await storage.listCommunityArchives(ada.id)).map(a => a.id)).toEqual([replacedCli.id, second.id]);
+    });
+
+    it("lists command-line imports for everyone and API imports for their importer", async () => {
+      const ada = await createAccount("ada");
+      const bea = await createAccount("bea");
+      const cli = await storage.saveCommunityArchive(archive(null, at(0)), [], []);
+      const adas = await storage.saveCommunityArchive(archive(ada.id, at(1)), [], []);
+
+      expect((await storage.listCommunityArchives(ada.id)).map(a => a.id)).toEqual([adas.id, cli.id]);
+      expect((await storage.listCommunityArchives(bea.id)).map(a => a.id)).toEqual([cli.id]);
+      expect((await storage.listCommunityArchives(null)).map(a => a.id)).toEqual([cli.id]);
+    });
+
+    it("queries tweets with filters, orders and pages", async () => {
+      const saved = await storage.saveCommunityArchive(archive(null), [
+        tweet("9", 0, { favoriteCount: 5 }),
+        tweet("10", 1, { replyToTweetId: "7", replyToUserId: "u1" }),
+        tweet("11", 1, { fullText: "RT @someone: hi", favoriteCount: 5 }),
+        tweet("12", 3)
+      ], []);
+      const query = { archiveIds: [saved.id] };
+      const ids = async (fields: Omit<schema.ArchiveTweetQuery, "archiveIds"> = {}) =>
+        (await storage.queryArchiveTweets({ ...query, ...fields })).map(t => t.tweetId);
+
+      // Ids compare as numbers, so "11" comes after "9"
+      expect(await ids()).toEqual(["12", "11", "10", "9"]);
+      expect(await ids({ order: "oldest" })).toEqual(["9", "10", "11", "12"]);
+      expect(await ids({ order: "popular" })).toEqual(["11", "9", "12", "10"]);
+      expect(await ids({ offset: 1, limit: 2 })).toEqual(["11", "10"]);
+      expect(await ids({ since: at(1), until: at(3) })).toEqual(["11", "10"]);
+      expect(await ids({ excludeReplies: true, excludeRetweets: true })).toEqual(["12", "9"]);
+      expect(await ids({ minLikes: 5 })).toEqual(["11", "9"]);
+      expect(await ids({ replyToTweetId: "7" })).toEqual(["10"]);
+      expect(await ids({ replyToUserId: "u1" })).toEqual(["10"]);
+      expect(await ids({ tweetIds: ["9", "12", "404"] })).toEqual(["12", "9"]);
+      expect(await storage.queryArchiveTweets({ archiveIds: [] })).toEqual([]);
+      expect(await storage.countArchiveTweets({ ...query, since: at(1), limit: 1 })).toBe(3);
+    });
+
+    it("pages through likes in export order and deletes an archive with its tweets and likes", async () => {
+      const likes = ["a", "b", "c"].map(tweetId => ({ tweetId, fullText: null, expandedUrl: null }));
+      const saved = await storage.saveCommunityArchive(archive(null), [tweet("1", 0)], likes);
+
+      expect((await storage.getArchiveLikes(saved.id, 2, 1)).map(l => l.tweetId)).toEqual(["b", "c"]);
+
+      await storage.deleteCommunityArchive(saved.id);
+
+      expect(await storage.getCommunityArchive(saved.id)).toBeUndefined();
+      expect(await storage.queryArchiveTweets({ archiveIds: [saved.id] })).toEqual([]);
+      expect(await storage.getArchiveLikes(saved.id, 10, 0)).toEqual([]);
+    });
+  });
+});
@@ -1,37 +1,201 @@
 import { 
+  accounts, type Account, type InsertAccount,
+  apiTokens, type ApiToken, type InsertApiToken,
   users, type User, type InsertUser,
   insights, type Insight, type InsertInsight,
-  comparisons, type Comparison, type InsertComparison
+  insightVersions, type InsightVersion, type InsertInsightVersion,
+  comparisons, type Comparison, type InsertComparison, type ComparisonFilter,
+  rooms, type Room, type InsertRoom,
+  translations, type Translation, type InsertTranslation, type TranslationFilter,
+  jobs, type Job, type InsertJob,
+  llmUsage, type LLMUsageRecord, type InsertLLMUsage, type UsageTotals,
+  cacheEntries, type CacheEntry, type InsertCacheEntry,
+  communityArchives, type CommunityArchive, type InsertCommunityArchive,
+  archiveTweets, type ArchiveTweet, type InsertArchiveTweet,
+  archiveLikes, type ArchiveLike, type InsertArchiveLike, type ArchiveTweetQuery
 } from "@shared/schema";
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNull, lt, lte, notLike, or, sql, type SQL } from "drizzle-orm";
+import type { Config } from "./config";
+import { createDb, type Database } from "./db";
+import { compareTweetIds } from "./services/community-archive";
+import { log } from "./utils";
 
 export interface IStorage {
+  // Account operations (people who sign in)
+  getAccount(id: number): Promise<Account | undefined>;
+  getAccountByUsername(username: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+
+  // API token operations
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // Only tokens that haven't been revoked
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokens(accountId: number): Promise<ApiToken[]>;
+  updateApiToken(id: number, token: Partial<InsertApiToken>): Promise<ApiToken>;
+
   // User operations
   getUser(id: number): Promise<User | undefined>;
+  // Handles match case-insensitively, as on Twitter
   getUserByTwitterHandle(handle: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
   // Insight operations
   getInsight(userId: number): Promise<Insight | undefined>;
   createInsight(insight: InsertInsight): Promise<Insight>;
   updateInsight(id: number, insight: Partial<InsertInsight>): Promise<Insight>;
+  createInsightVersion(version: InsertInsightVersion): Promise<InsightVersion>;
+  // Oldest first
+  getInsightVersions(userId: number): Promise<InsightVersion[]>;
 
   // Comparison operations
   getComparison(id: number): Promise<Comparison | undefined>;
   createComparison(comparison: InsertComparison): Promise<Comparison>;
   getComparisonsByUser(userId: number): Promise<Comparison[]>;
+  // Newest first
+  listComparisons(filter?: ComparisonFilter): Promise<Comparison[]>;
+
+  // Room operations
+  getRoom(id: number): Promise<Room | undefined>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  // Rooms the user was a member of, newest first; with ownerId, only that account's (and unowned) rooms
+  getRoomsByUser(userId: number, ownerId?: number): Promise<Room[]>;
+
+  // Translation operations
+  getTranslation(id: number): Promise<Translation | undefined>;
+  createTranslation(translation: InsertTranslation): Promise<Translation>;
+  listTranslations(filter?: TranslationFilter): Promise<Translation[]>;
+
+  // Job operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  // The queued or running job with this dedupe key, if any
+  findActiveJob(dedupeKey: string): Promise<Job | undefined>;
+  // Atomically marks the next due queued job as running and counts the attempt
+  claimNextJob(now: Date): Promise<Job | undefined>;
+  updateJob(id: number, job: Partial<InsertJob>): Promise<Job>;
+  // Requeues jobs left running since before the cutoff, or fails them once out of attempts
+  recoverStaleJobs(runningSince: Date, now: Date): Promise<Job[]>;
+
+  // LLM usage operations
+  recordLLMUsage(usage: InsertLLMUsage): Promise<LLMUsageRecord>;
+  // Sums an account's usage since the given time
+  getLLMUsageTotals(accountId: number, since: Date): Promise<UsageTotals>;
+
+  // Cache operations
+  getCacheEntry(key: string): Promise<CacheEntry | undefined>;
+  // Inserts or replaces the entry for the key
+  setCacheEntry(entry: InsertCacheEntry): Promise<void>;
+  // Removes entries that expired before the given time and returns how many went
+  deleteExpiredCacheEntries(before: Date): Promise<number>;
+
+  // Community archive operations (imported Twitter/X data exports)
+  // Replaces the importer's earlier archive of the same account, with its tweets and likes
+  saveCommunityArchive(
+    archive: InsertCommunityArchive,
+    tweets: Omit<InsertArchiveTweet, "archiveId">[],
+    likes: Omit<InsertArchiveLike, "archiveId">[],
+  ): Promise<CommunityArchive>;
+  getCommunityArchive(id: number): Promise<CommunityArchive | undefined>;
+  // Command-line imports plus this account's own (only command-line imports for null), most recently imported first
+  listCommunityArchives(visibleTo: number | null): Promise<CommunityArchive[]>;
+  queryArchiveTweets(query: ArchiveTweetQuery): Promise<ArchiveTweet[]>;
+  // Ignores the query's order, limit and offset
+  countArchiveTweets(query: ArchiveTweetQuery): Promise<number>;
+  // In the order the export listed them
+  getArchiveLikes(archiveId: number, limit: number, offset: number): Promise<ArchiveLike[]>;
+  // Deletes the archive with its tweets and likes
+  deleteCommunityArchive(id: number): Promise<void>;
 }
 
+// Recorded on jobs whose worker went away mid-run, e.g. in a crash or a deploy
+const STALE_JOB_ERROR = "Worker stopped while the job was running";
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private insights: Map<number, Insight>;
+  private insightVersions: Map<number, InsightVersion>;
   private comparisons: Map<number, Comparison>;
-  private currentIds: { user: number; insight: number; comparison: number };
+  private translations: Map<number, Translation>;
+  private jobs: Map<number, Job>;
+  private cacheEntries: Map<string, CacheEntry>;
+  private rooms: Map<number, Room>;
+  private accounts: Map<number, Account>;
+  private apiTokens: Map<number, ApiToken>;
+  private llmUsage: LLMUsageRecord[];
+  private communityArchives: Map<number, CommunityArchive>;
+  private archiveTweets: Map<number, ArchiveTweet[]>;
+  private archiveLikes: Map<number, ArchiveLike[]>;
+  private currentIds: { account: number; apiToken: number; user: number; insight: number; insightVersion: number; comparison: number; room: number; translation: number; job: number; llmUsage: number; communityArchive: number; archiveTweet: number; archiveLike: number };
 
   constructor() {
     this.users = new Map();
     this.insights = new Map();
+    this.insightVersions = new Map();
     this.comparisons = new Map();
-    this.currentIds = { user: 1, insight: 1, comparison: 1 };
+    this.rooms = new Map();
+    this.accounts = new Map();
+    this.apiTokens = new Map();
+    this.translations = new Map();
+    this.jobs = new Map();
+    this.cacheEntries = new Map();
+    this.llmUsage = [];
+    this.communityArchives = new Map();
+    this.archiveTweets = new Map();
+    this.archiveLikes = new Map();
+    this.currentIds = { account: 1, apiToken: 1, user: 1, insight: 1, insightVersion: 1, comparison: 1, room: 1, translation: 1, job: 1, llmUsage: 1, communityArchive: 1, archiveTweet: 1, archiveLike: 1 };
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    return this.accounts.get(id);
+  }
+
+  async getAccountByUsername(username: string): Promise<Account | undefined> {
+    return Array.from(this.accounts.values()).find(
+      (account) => account.username === username,
+    );
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    if (await this.getAccountByUsername(insertAccount.username)) {
+      throw new Error(`Account already exists: ${insertAccount.username}`);
+    }
+    const id = this.currentIds.account++;
+    const account: Account = { ...insertAccount, id };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentIds.apiToken++;
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      lastUsedAt: insertToken.lastUsedAt ?? null,
+      revokedAt: insertToken.revokedAt ?? null,
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(
+      (token) => token.tokenHash === tokenHash && !token.revokedAt,
+    );
+  }
+
+  async getApiTokens(accountId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter((token) => token.accountId === accountId);
+  }
+
+  async updateApiToken(id: number, updateData: Partial<InsertApiToken>): Promise<ApiToken> {
+    const existing = this.apiTokens.get(id);
+    if (!existing) {
+      throw new Error(`API token not found: ${id}`);
+    }
+    const updated: ApiToken = { ...existing, ...updateData };
+    this.apiTokens.set(id, updated);
+    return updated;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -40,13 +204,20 @@ export class MemStorage implements IStorage {
 
   async getUserByTwitterHandle(handle: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
-      (user) => user.twitterHandle === handle,
+      (user) => user.twitterHandle.toLowerCase() === handle.toLowerCase(),
     );
   }
 
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (Array.from(this.users.values()).some((user) => user.username === insertUser.username)) {
+      throw new Error(`User already exists: ${insertUser.username}`);
+    }
     const id = this.currentIds.user++;
-    const user: User = { id, ...insertUser };
+    const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
@@ -59,7 +230,13 @@ export class MemStorage implements IStorage {
 
   async createInsight(insertInsight: InsertInsight): Promise<Insight> {
     const id = this.currentIds.insight++;
-    const insight: Insight = { id, ...insertInsight };
+    const insight: Insight = {
+      ...insertInsight,
+      id,
+      userId: insertInsight.userId ?? null,
+      sourceTweetIds: insertInsight.sourceTweetIds ?? [],
+      version: insertInsight.version ?? 1,
+    };
     this.insights.set(id, insight);
     return insight;
   }
@@ -69,11 +246,36 @@ export class MemStorage implements IStorage {
     if (!existing) {
       throw new Error(`Insight not found: ${id}`);
     }
-    const updated: Insight = { ...existing, ...updateData };
+    const updated: Insight = {
+      ...existing,
+      ...updateData,
+      userId: updateData.userId ?? existing.userId,
+      sourceTweetIds: updateData.sourceTweetIds ?? existing.sourceTweetIds,
+      version: updateData.version ?? existing.version,
+      lastUpdated: updateData.lastUpdated ?? new Date(),
+    };
     this.insights.set(id, updated);
     return updated;
   }
 
+  async createInsightVersion(insertVersion: InsertInsightVersion): Promise<InsightVersion> {
+    const id = this.currentIds.insightVersion++;
+    const version: InsightVersion = {
+      ...insertVersion,
+      id,
+      userId: insertVersion.userId ?? null,
+      sourceTweetIds: insertVersion.sourceTweetIds ?? []
+    };
+    this.insightVersions.set(id, version);
+    return version;
+  }
+
+  async getInsightVersions(userId: number): Promise<InsightVersion[]> {
+    return Array.from(this.insightVersions.values())
+      .filter((version) => version.userId === userId)
+      .sort((a, b) => a.version - b.version);
+  }
+
   async getComparison(id: number): Promise<Comparison | undefined> {
     return this.comparisons.get(id);
   }
@@ -81,8 +283,12 @@ export class MemStorage implements IStorage {
   async createComparison(insertComparison: InsertComparison): Promise<Comparison> {
     const id = this.currentIds.comparison++;
     const comparison: Comparison = {
-      id,
       ...insertComparison,
+      id,
+      userAId: insertComparison.userAId ?? null,
+      userBId: insertComparison.userBId ?? null,
+      result: insertComparison.result ?? null,
+      ownerId: insertComparison.ownerId ?? null,
       createdAt: new Date(), // Ensure createdAt is a Date object
     };
     this.comparisons.set(id, comparison);
@@ -94,6 +300,702 @@ export class MemStorage implements IStorage {
       (comparison) => comparison.userAId === userId || comparison.userBId === userId,
     );
   }
+
+  async listComparisons(filter: ComparisonFilter = {}): Promise<Comparison[]> {
+    const search = filter.search?.toLowerCase();
+
+    return Array.from(this.comparisons.values())
+      .filter((c) => filter.userId === undefined || c.userAId === filter.userId || c.userBId === filter.userId)
+      .filter((c) => filter.ownerId === undefined || c.ownerId === null || c.ownerId === filter.ownerId)
+      .filter((c) => !search || c.argumentText.toLowerCase().includes(search) || JSON.stringify(c.result ?? {}).toLowerCase().includes(search))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(filter.offset ?? 0, (filter.offset ?? 0) + (filter.limit ?? 50));
+  }
+
+  async getRoom(id: number): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    const id = this.currentIds.room++;
+    const room: Room = { ...insertRoom, id, ownerId: insertRoom.ownerId ?? null };
+    this.rooms.set(id, room);
+    return room;
+  }
+
+  async getRoomsByUser(userId: number, ownerId?: number): Promise<Room[]> {
+    return Array.from(this.rooms.values())
+      .filter((room) => room.memberIds.includes(userId))
+      .filter((room) => ownerId === undefined || room.ownerId === null || room.ownerId === ownerId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getTranslation(id: number): Promise<Translation | undefined> {
+    return this.translations.get(id);
+  }
+
+  async createTranslation(insertTranslation: InsertTranslation): Promise<Translation> {
+    const id = this.currentIds.translation++;
+    const translation: Translation = {
+      ...insertTranslation,
+      id,
+      sourceHandle: insertTranslation.sourceHandle ?? null,
+      sourceTweetId: insertTranslation.sourceTweetId ?? null,
+      insightId: insertTranslation.insightId ?? null,
+      exemplarTweetIds: insertTranslation.exemplarTweetIds ?? [],
+      glossary: insertTranslation.glossary ?? [],
+      ownerId: insertTranslation.ownerId ?? null,
+    };
+    this.translations.set(id, translation);
+    return translation;
+  }
+
+  async listTranslations(filter: TranslationFilter = {}): Promise<Translation[]> {
+    const source = filter.sourceHandle?.toLowerCase();
+    const handle = filter.targetHandle?.toLowerCase();
+    const frame = filter.frame?.toLowerCase();
+
+    return Array.from(this.translations.values())
+      .filter((t) => filter.ownerId === undefined || t.ownerId === null || t.ownerId === filter.ownerId)
+      .filter((t) => !source || t.sourceHandle?.toLowerCase() === source)
+      .filter((t) => !handle || t.targetHandle.toLowerCase() === handle)
+      .filter((t) => !frame || t.sourceFrame.toLowerCase() === frame || t.targetFrame.toLowerCase() === frame)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(filter.offset ?? 0, (filter.offset ?? 0) + (filter.limit ?? 50));
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.currentIds.job++;
+    const job: Job = {
+      ...insertJob,
+      id,
+      dedupeKey: insertJob.dedupeKey ?? null,
+      status: insertJob.status ?? "queued",
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      result: insertJob.result ?? null,
+      error: insertJob.error ?? null,
+      ownerId: insertJob.ownerId ?? null,
+      enqueuedBy: insertJob.enqueuedBy ?? null,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async findActiveJob(dedupeKey: string): Promise<Job | undefined> {
+    return Array.from(this.jobs.values()).find(
+      (job) => job.dedupeKey === dedupeKey && (job.status === "queued" || job.status === "running"),
+    );
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    const next = Array.from(this.jobs.values())
+      .filter((job) => job.status === "queued" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const claimed: Job = { ...next, status: "running", attempts: next.attempts + 1, updatedAt: now };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async updateJob(id: number, updateData: Partial<InsertJob>): Promise<Job> {
+    const existing = this.jobs.get(id);
+    if (!existing) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    const updated: Job = { ...existing, ...updateData, updatedAt: updateData.updatedAt ?? new Date() };
+    this.jobs.set(id, updated);
+    return updated;
+  }
+
+  async recoverStaleJobs(runningSince: Date, now: Date): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === "running" && job.updatedAt < runningSince)
+      .map((job) => {
+        const recovered: Job = {
+          ...job,
+          status: job.attempts < job.maxAttempts ? "queued" : "failed",
+          error: STALE_JOB_ERROR,
+          runAt: now,
+          updatedAt: now
+        };
+        this.jobs.set(job.id, recovered);
+        return recovered;
+      });
+  }
+
+  async recordLLMUsage(insertUsage: InsertLLMUsage): Promise<LLMUsageRecord> {
+    const id = this.currentIds.llmUsage++;
+    const usage: LLMUsageRecord = {
+      ...insertUsage,
+      id,
+      accountId: insertUsage.accountId ?? null,
+      estimated: insertUsage.estimated ?? false
+    };
+    this.llmUsage.push(usage);
+    return usage;
+  }
+
+  async getLLMUsageTotals(accountId: number, since: Date): Promise<UsageTotals> {
+    return this.llmUsage
+      .filter(usage => usage.accountId === accountId && usage.createdAt >= since)
+      .reduce((totals, usage) => ({
+        calls: totals.calls + 1,
+        inputTokens: totals.inputTokens + usage.inputTokens,
+        outputTokens: totals.outputTokens + usage.outputTokens,
+        costUsd: totals.costUsd + usage.costUsd
+      }), { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+  }
+
+  async getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+    return this.cacheEntries.get(key);
+  }
+
+  async setCacheEntry(entry: InsertCacheEntry): Promise<void> {
+    this.cacheEntries.set(entry.key, { ...entry, value: entry.value ?? null });
+  }
+
+  async deleteExpiredCacheEntries(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, entry] of Array.from(this.cacheEntries)) {
+      if (entry.expiresAt < before) {
+        this.cacheEntries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async saveCommunityArchive(
+    insertArchive: InsertCommunityArchive,
+    tweets: Omit<InsertArchiveTweet, "archiveId">[],
+    likes: Omit<InsertArchiveLike, "archiveId">[],
+  ): Promise<CommunityArchive> {
+    const importedBy = insertArchive.importedBy ?? null;
+    const existing = Array.from(this.communityArchives.values())
+      .find((archive) => archive.accountId === insertArchive.accountId && archive.importedBy === importedBy);
+    if (existing) {
+      await this.deleteCommunityArchive(existing.id);
+    }
+
+    const id = this.currentIds.communityArchive++;
+    const archive: CommunityArchive = {
+      ...insertArchive,
+      id,
+      displayName: insertArchive.displayName ?? null,
+      bio: insertArchive.bio ?? null,
+      website: insertArchive.website ?? null,
+      location: insertArchive.location ?? null,
+      avatarMediaUrl: insertArchive.avatarMediaUrl ?? null,
+      accountCreatedAt: insertArchive.accountCreatedAt ?? null,
+      importedBy,
+    };
+    this.communityArchives.set(id, archive);
+    this.archiveTweets.set(id, tweets.map((tweet) => ({
+      ...tweet,
+      id: this.currentIds.archiveTweet++,
+      archiveId: id,
+      replyToTweetId: tweet.replyToTweetId ?? null,
+      replyToUserId: tweet.replyToUserId ?? null,
+      replyToUsername: tweet.replyToUsername ?? null,
+    })));
+    this.archiveLikes.set(id, likes.map((like) => ({
+      ...like,
+      id: this.currentIds.archiveLike++,
+      archiveId: id,
+      fullText: like.fullText ?? null,
+      expandedUrl: like.expandedUrl ?? null,
+    })));
+    return archive;
+  }
+
+  async getCommunityArchive(id: number): Promise<CommunityArchive | undefined> {
+    return this.communityArchives.get(id);
+  }
+
+  async listCommunityArchives(visibleTo: number | null): Promise<CommunityArchive[]> {
+    return Array.from(this.communityArchives.values())
+      .filter((archive) => archive.importedBy === null || archive.importedBy === visibleTo)
+      .sort((a, b) => b.importedAt.getTime() - a.importedAt.getTime() || b.id - a.id);
+  }
+
+  private matchingArchiveTweets(query: ArchiveTweetQuery): ArchiveTweet[] {
+    const tweetIds = query.tweetIds && new Set(query.tweetIds);
+    return query.archiveIds.flatMap((id) => this.archiveTweets.get(id) ?? []).filter((tweet) =>
+      (!tweetIds || tweetIds.has(tweet.tweetId))
+      && (query.replyToTweetId === undefined || tweet.replyToTweetId === query.replyToTweetId)
+      && (query.replyToUserId === undefined || tweet.replyToUserId === query.replyToUserId)
+      && (!query.since || tweet.createdAt >= query.since)
+      && (!query.until || tweet.createdAt < query.until)
+      && (!query.excludeReplies || tweet.replyToTweetId === null)
+      && (!query.excludeRetweets || !tweet.fullText.startsWith("RT @"))
+      && (query.minLikes === undefined || tweet.favoriteCount >= query.minLikes)
+    );
+  }
+
+  async queryArchiveTweets(query: ArchiveTweetQuery): Promise<ArchiveTweet[]> {
+    const newestFirst = (a: ArchiveTweet, b: ArchiveTweet) =>
+      b.createdAt.getTime() - a.createdAt.getTime() || compareTweetIds(b.tweetId, a.tweetId);
+    const order = {
+      recent: newestFirst,
+      popular: (a: ArchiveTweet, b: ArchiveTweet) => b.favoriteCount - a.favoriteCount || newestFirst(a, b),
+      oldest: (a: ArchiveTweet, b: ArchiveTweet) => newestFirst(b, a),
+    }[query.order ?? "recent"];
+    const offset = query.offset ?? 0;
+    return this.matchingArchiveTweets(query)
+      .sort(order)
+      .slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+  }
+
+  async countArchiveTweets(query: ArchiveTweetQuery): Promise<number> {
+    return this.matchingArchiveTweets(query).length;
+  }
+
+  async getArchiveLikes(archiveId: number, limit: number, offset: number): Promise<ArchiveLike[]> {
+    return (this.archiveLikes.get(archiveId) ?? []).slice(offset, offset + limit);
+  }
+
+  async deleteCommunityArchive(id: number): Promise<void> {
+    this.communityArchives.delete(id);
+    this.archiveTweets.delete(id);
+    this.archiveLikes.delete(id);
+  }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// Rows per INSERT when saving an archive; tweets have 10 columns, well under the 65535 parameter limit
+const ARCHIVE_INSERT_BATCH = 1000;
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.id, id));
+    return account;
+  }
+
+  async getAccountByUsername(username: string): Promise<Account | undefined> {
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.username, username));
+    return account;
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const [account] = await this.db.insert(accounts).values(insertAccount).returning();
+    return account;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.tokenHash, tokenHash), isNull(apiTokens.revokedAt)));
+    return token;
+  }
+
+  async getApiTokens(accountId: number): Promise<ApiToken[]> {
+    return this.db.select().from(apiTokens).where(eq(apiTokens.accountId, accountId)).orderBy(asc(apiTokens.id));
+  }
+
+  async updateApiToken(id: number, updateData: Partial<InsertApiToken>): Promise<ApiToken> {
+    const [updated] = await this.db.update(apiTokens).set(updateData).where(eq(apiTokens.id, id)).returning();
+    if (!updated) {
+      throw new Error(`API token not found: ${id}`);
+    }
+    return updated;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByTwitterHandle(handle: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.twitterHandle}) = ${handle.toLowerCase()}`);
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getInsight(userId: number): Promise<Insight | undefined> {
+    const [insight] = await this.db.select().from(insights).where(eq(insights.userId, userId)).limit(1);
+    return insight;
+  }
+
+  async createInsight(insertInsight: InsertInsight): Promise<Insight> {
+    const [insight] = await this.db.insert(insights).values(insertInsight).returning();
+    return insight;
+  }
+
+  async updateInsight(id: number, updateData: Partial<InsertInsight>): Promise<Insight> {
+    const [updated] = await this.db
+      .update(insights)
+      .set({ ...updateData, lastUpdated: updateData.lastUpdated ?? new Date() })
+      .where(eq(insights.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Insight not found: ${id}`);
+    }
+    return updated;
+  }
+
+  async createInsightVersion(insertVersion: InsertInsightVersion): Promise<InsightVersion> {
+    const [version] = await this.db.insert(insightVersions).values(insertVersion).returning();
+    return version;
+  }
+
+  async getInsightVersions(userId: number): Promise<InsightVersion[]> {
+    return this.db
+      .select()
+      .from(insightVersions)
+      .where(eq(insightVersions.userId, userId))
+      .orderBy(asc(insightVersions.version));
+  }
+
+  async getComparison(id: number): Promise<Comparison | undefined> {
+    const [comparison] = await this.db.select().from(comparisons).where(eq(comparisons.id, id));
+    return comparison;
+  }
+
+  async createComparison(insertComparison: InsertComparison): Promise<Comparison> {
+    const [comparison] = await this.db
+      .insert(comparisons)
+      .values({ ...insertComparison, createdAt: new Date() })
+      .returning();
+    return comparison;
+  }
+
+  async getComparisonsByUser(userId: number): Promise<Comparison[]> {
+    return this.db
+      .select()
+      .from(comparisons)
+      .where(or(eq(comparisons.userAId, userId), eq(comparisons.userBId, userId)));
+  }
+
+  async listComparisons(filter: ComparisonFilter = {}): Promise<Comparison[]> {
+    const conditions: SQL[] = [];
+    if (filter.userId !== undefined) {
+      conditions.push(or(eq(comparisons.userAId, filter.userId), eq(comparisons.userBId, filter.userId))!);
+    }
+    if (filter.ownerId !== undefined) {
+      conditions.push(or(eq(comparisons.ownerId, filter.ownerId), isNull(comparisons.ownerId))!);
+    }
+    if (filter.search) {
+      const pattern = `%${escapeLike(filter.search)}%`;
+      conditions.push(or(
+        ilike(comparisons.argumentText, pattern),
+        sql`${comparisons.result}::text ilike ${pattern}`
+      )!);
+    }
+
+    return this.db
+      .select()
+      .from(comparisons)
+      .where(and(...conditions))
+      .orderBy(desc(comparisons.createdAt), desc(comparisons.id))
+      .limit(filter.limit ?? 50)
+      .offset(filter.offset ?? 0);
+  }
+
+  async getRoom(id: number): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    const [room] = await this.db.insert(rooms).values(insertRoom).returning();
+    return room;
+  }
+
+  async getRoomsByUser(userId: number, ownerId?: number): Promise<Room[]> {
+    return this.db
+      .select()
+      .from(rooms)
+      .where(and(
+        sql`${rooms.memberIds} @> ${JSON.stringify([userId])}::jsonb`,
+        ownerId === undefined ? undefined : or(eq(rooms.ownerId, ownerId), isNull(rooms.ownerId))
+      ))
+      .orderBy(desc(rooms.createdAt), desc(rooms.id));
+  }
+
+  async getTranslation(id: number): Promise<Translation | undefined> {
+    const [translation] = await this.db.select().from(translations).where(eq(translations.id, id));
+    return translation;
+  }
+
+  async createTranslation(insertTranslation: InsertTranslation): Promise<Translation> {
+    const [translation] = await this.db.insert(translations).values(insertTranslation).returning();
+    return translation;
+  }
+
+  async listTranslations(filter: TranslationFilter = {}): Promise<Translation[]> {
+    const conditions: SQL[] = [];
+    if (filter.ownerId !== undefined) {
+      conditions.push(or(eq(translations.ownerId, filter.ownerId), isNull(translations.ownerId))!);
+    }
+    if (filter.sourceHandle) {
+      conditions.push(ilike(translations.sourceHandle, escapeLike(filter.sourceHandle)));
+    }
+    if (filter.targetHandle) {
+      conditions.push(ilike(translations.targetHandle, escapeLike(filter.targetHandle)));
+    }
+    if (filter.frame) {
+      const frame = escapeLike(filter.frame);
+      conditions.push(or(ilike(translations.sourceFrame, frame), ilike(translations.targetFrame, frame))!);
+    }
+
+    return this.db
+      .select()
+      .from(translations)
+      .where(and(...conditions))
+      .orderBy(desc(translations.createdAt), desc(translations.id))
+      .limit(filter.limit ?? 50)
+      .offset(filter.offset ?? 0);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async findActiveJob(dedupeKey: string): Promise<Job | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.dedupeKey, dedupeKey), inArray(jobs.status, ["queued", "running"])))
+      .limit(1);
+    return job;
+  }
+
+  async claimNextJob(now: Date): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without claiming a job twice
+    const next = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "queued"), lte(jobs.runAt, now)))
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await this.db
+      .update(jobs)
+      .set({ status: "running", attempts: sql`${jobs.attempts} + 1`, updatedAt: now })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, updateData: Partial<InsertJob>): Promise<Job> {
+    const [updated] = await this.db
+      .update(jobs)
+      .set({ ...updateData, updatedAt: updateData.updatedAt ?? new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    return updated;
+  }
+
+  async recoverStaleJobs(runningSince: Date, now: Date): Promise<Job[]> {
+    return this.db
+      .update(jobs)
+      .set({
+        status: sql`case when ${jobs.attempts} < ${jobs.maxAttempts} then 'queued' else 'failed' end`,
+        error: STALE_JOB_ERROR,
+        runAt: now,
+        updatedAt: now
+      })
+      .where(and(eq(jobs.status, "running"), lt(jobs.updatedAt, runningSince)))
+      .returning();
+  }
+
+  async recordLLMUsage(usage: InsertLLMUsage): Promise<LLMUsageRecord> {
+    const [created] = await this.db.insert(llmUsage).values(usage).returning();
+    return created;
+  }
+
+  async getLLMUsageTotals(accountId: number, since: Date): Promise<UsageTotals> {
+    const [totals] = await this.db
+      .select({
+        calls: sql<number>`count(*)::int`,
+        inputTokens: sql<number>`coalesce(sum(${llmUsage.inputTokens}), 0)::int`,
+        outputTokens: sql<number>`coalesce(sum(${llmUsage.outputTokens}), 0)::int`,
+        costUsd: sql<number>`coalesce(sum(${llmUsage.costUsd}), 0)::float8`
+      })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.accountId, accountId), gte(llmUsage.createdAt, since)));
+    return totals;
+  }
+
+  async getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+    const [entry] = await this.db.select().from(cacheEntries).where(eq(cacheEntries.key, key));
+    return entry;
+  }
+
+  async setCacheEntry(entry: InsertCacheEntry): Promise<void> {
+    const values = { ...entry, value: entry.value ?? null };
+    await this.db
+      .insert(cacheEntries)
+      .values(values)
+      .onConflictDoUpdate({
+        target: cacheEntries.key,
+        set: { value: values.value, expiresAt: values.expiresAt, createdAt: values.createdAt },
+      });
+  }
+
+  async deleteExpiredCacheEntries(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(cacheEntries)
+      .where(lt(cacheEntries.expiresAt, before))
+      .returning({ key: cacheEntries.key });
+    return deleted.length;
+  }
+
+  async saveCommunityArchive(
+    insertArchive: InsertCommunityArchive,
+    tweets: Omit<InsertArchiveTweet, "archiveId">[],
+    likes: Omit<InsertArchiveLike, "archiveId">[],
+  ): Promise<CommunityArchive> {
+    // One transaction, so readers never see an archive with only some of its tweets
+    return this.db.transaction(async (tx) => {
+      // The old archive's tweets and likes go with it (ON DELETE CASCADE)
+      const importedBy = insertArchive.importedBy ?? null;
+      await tx.delete(communityArchives).where(and(
+        eq(communityArchives.accountId, insertArchive.accountId),
+        importedBy === null ? isNull(communityArchives.importedBy) : eq(communityArchives.importedBy, importedBy)
+      ));
+      const [archive] = await tx.insert(communityArchives).values(insertArchive).returning();
+
+      // Batched to stay under Postgres' limit on bind parameters per statement
+      for (let i = 0; i < tweets.length; i += ARCHIVE_INSERT_BATCH) {
+        const batch = tweets.slice(i, i + ARCHIVE_INSERT_BATCH).map((tweet) => ({ ...tweet, archiveId: archive.id }));
+        await tx.insert(archiveTweets).values(batch);
+      }
+      for (let i = 0; i < likes.length; i += ARCHIVE_INSERT_BATCH) {
+        const batch = likes.slice(i, i + ARCHIVE_INSERT_BATCH).map((like) => ({ ...like, archiveId: archive.id }));
+        await tx.insert(archiveLikes).values(batch);
+      }
+      return archive;
+    });
+  }
+
+  async getCommunityArchive(id: number): Promise<CommunityArchive | undefined> {
+    const [archive] = await this.db.select().from(communityArchives).where(eq(communityArchives.id, id));
+    return archive;
+  }
+
+  async listCommunityArchives(visibleTo: number | null): Promise<CommunityArchive[]> {
+    return this.db
+      .select()
+      .from(communityArchives)
+      .where(visibleTo === null
+        ? isNull(communityArchives.importedBy)
+        : or(isNull(communityArchives.importedBy), eq(communityArchives.importedBy, visibleTo)))
+      .orderBy(desc(communityArchives.importedAt), desc(communityArchives.id));
+  }
+
+  private archiveTweetConditions(query: ArchiveTweetQuery): SQL | undefined {
+    const conditions: SQL[] = [inArray(archiveTweets.archiveId, query.archiveIds)];
+    if (query.tweetIds) {
+      conditions.push(inArray(archiveTweets.tweetId, query.tweetIds));
+    }
+    if (query.replyToTweetId !== undefined) {
+      conditions.push(eq(archiveTweets.replyToTweetId, query.replyToTweetId));
+    }
+    if (query.replyToUserId !== undefined) {
+      conditions.push(eq(archiveTweets.replyToUserId, query.replyToUserId));
+    }
+    if (query.since) {
+      conditions.push(gte(archiveTweets.createdAt, query.since));
+    }
+    if (query.until) {
+      conditions.push(lt(archiveTweets.createdAt, query.until));
+    }
+    if (query.excludeReplies) {
+      conditions.push(isNull(archiveTweets.replyToTweetId));
+    }
+    if (query.excludeRetweets) {
+      conditions.push(notLike(archiveTweets.fullText, "RT @%"));
+    }
+    if (query.minLikes !== undefined) {
+      conditions.push(gte(archiveTweets.favoriteCount, query.minLikes));
+    }
+    return and(...conditions);
+  }
+
+  async queryArchiveTweets(query: ArchiveTweetQuery): Promise<ArchiveTweet[]> {
+    // Tweet ids are numeric strings: a shorter id is a smaller one
+    const newestFirst = [desc(archiveTweets.createdAt), desc(sql`length(${archiveTweets.tweetId})`), desc(archiveTweets.tweetId)];
+    const order = {
+      recent: newestFirst,
+      popular: [desc(archiveTweets.favoriteCount), ...newestFirst],
+      oldest: [asc(archiveTweets.createdAt), asc(sql`length(${archiveTweets.tweetId})`), asc(archiveTweets.tweetId)],
+    }[query.order ?? "recent"];
+
+    const select = this.db
+      .select()
+      .from(archiveTweets)
+      .where(this.archiveTweetConditions(query))
+      .orderBy(...order)
+      .offset(query.offset ?? 0);
+    return query.limit === undefined ? select : select.limit(query.limit);
+  }
+
+  async countArchiveTweets(query: ArchiveTweetQuery): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(archiveTweets).where(this.archiveTweetConditions(query));
+    return total;
+  }
+
+  async getArchiveLikes(archiveId: number, limit: number, offset: number): Promise<ArchiveLike[]> {
+    return this.db
+      .select()
+      .from(archiveLikes)
+      .where(eq(archiveLikes.archiveId, archiveId))
+      .orderBy(asc(archiveLikes.id))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async deleteCommunityArchive(id: number): Promise<void> {
+    await this.db.delete(communityArchives).where(eq(communityArchives.id, id));
+  }
+}
+
+// ilike is used for case-insensitive equality, so wildcards in user input must be literal
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Uses Postgres when a database URL is configured, otherwise falls back to in-memory storage
+ */
+export function createStorage(settings: Config["database"]): IStorage {
+  if (settings.url) {
+    log("Using Postgres storage", "storage");
+    return new DbStorage(createDb(settings.url));
+  }
+  log("DATABASE_URL not set, using in-memory storage (data is lost on restart)", "storage");
+  return new MemStorage();
+}
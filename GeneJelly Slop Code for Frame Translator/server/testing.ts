@@ -0,0 +1,140 @@
+import type { AddressInfo } from "net";
+import yazl from "yazl";
+import { createApp } from "./app";
+import { configSchema, type Config, type ConfigInput } from "./config";
+import { MemStorage } from "./storage";
+import { FakeArchive } from "./services/fake-archive";
+import { FakeProvider } from "./services/llm";
+
+export interface TestAppOptions {
+  // Merged over the test defaults one section at a time
+  config?: Partial<ConfigInput>;
+  archive?: FakeArchive;
+  llm?: FakeProvider;
+}
+
+export interface TestResponse<T = any> {
+  status: number;
+  headers: Headers;
+  body: T;
+}
+
+export interface TestApp {
+  baseUrl: string;
+  config: Config;
+  storage: MemStorage;
+  archive: FakeArchive;
+  llm: FakeProvider;
+
+  /**
+   * Sends a JSON request, signed in with the token from signIn once there is one.
+   * A Buffer body is sent as is (e.g. an export zip, with its Content-Type in headers).
+   * SSE responses come back as their raw text.
+   */
+  request<T = any>(method: string, path: string, body?: unknown, headers?: Record<string, string>): Promise<TestResponse<T>>;
+
+  /**
+   * Registers an account, or logs in to one registered earlier, and signs later requests in
+   * with an API token for it, in place of any account signed in before
+   */
+  signIn(username?: string): Promise<void>;
+
+  // Runs queued jobs now rather than waiting for the worker to poll
+  drainJobs(): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+const testDefaults: ConfigInput = {
+  env: "test",
+  archive: { apiUrl: "http://archive.invalid", apiKey: "test" },
+  llm: { provider: "fake" },
+  // Limits and quotas are off unless a test turns them on
+  rateLimits: { ipPerMinute: 0, llmPerMinute: 0, llmPerTokenPerMinute: 0 },
+  usage: { dailyTokens: 0, dailyCostUsd: 0 },
+  logging: { level: "error" }
+};
+
+/**
+ * Starts the API on a random local port with in-memory storage, a FakeArchive and a
+ * FakeProvider, so routes can be exercised end to end with no network. Seed the archive
+ * through `archive` and script model output through the FakeProvider's responder.
+ */
+export async function startTestApp(options: TestAppOptions = {}): Promise<TestApp> {
+  const config = configSchema.parse({ ...testDefaults, ...options.config });
+  const storage = new MemStorage();
+  const archive = options.archive ?? new FakeArchive();
+  const llm = options.llm ?? new FakeProvider();
+
+  const { server, services } = await createApp({ config, storage, archive, llmProviders: { fake: llm } });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let authorization: string | undefined;
+
+  async function request<T>(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse<T>> {
+    const json = body !== undefined && !Buffer.isBuffer(body);
+    const response = await fetch(baseUrl + path, {
+      method,
+      headers: {
+        ...(json ? { "Content-Type": "application/json" } : {}),
+        ...(authorization ? { Authorization: authorization } : {}),
+        ...headers
+      },
+      body: json ? JSON.stringify(body) : body as Buffer | undefined
+    });
+    const text = await response.text();
+    const isJson = response.headers.get("content-type")?.includes("application/json");
+    return { status: response.status, headers: response.headers, body: isJson && text ? JSON.parse(text) : text };
+  }
+
+  return {
+    baseUrl,
+    config,
+    storage,
+    archive,
+    llm,
+    request,
+
+    async signIn(username = "tester") {
+      // Signed out first, so a second call switches accounts
+      authorization = undefined;
+      const credentials = { username, password: "test-password" };
+      let session = await request("POST", "/api/register", credentials);
+      if (session.status === 409) {
+        session = await request("POST", "/api/login", credentials);
+      }
+      const cookie = session.headers.get("set-cookie")?.split(";")[0];
+      if (session.status >= 300 || !cookie) {
+        throw new Error(`Could not sign in as ${username}: ${session.status} ${JSON.stringify(session.body)}`);
+      }
+      const created = await request<{ token: string }>("POST", "/api/tokens", { name: "test" }, { Cookie: cookie });
+      authorization = `Bearer ${created.body.token}`;
+    },
+
+    drainJobs: () => services.jobs.worker.drain(),
+
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
+
+/**
+ * Builds a Twitter/X data export zip. Each file's content is written the way exports write it,
+ * as a script assigning it to `window.YTD`; a string is written as is instead.
+ * e.g. `buildExportZip({ "data/account.js": [{ account: { accountId: "1", username: "carol" } }] })`
+ */
+export async function buildExportZip(files: Record<string, unknown>): Promise<Buffer> {
+  const zip = new yazl.ZipFile();
+  for (const [name, content] of Object.entries(files)) {
+    const key = name.replace(/^.*\//, "").replace(/(-part\d+)?\.js$/, "");
+    const text = typeof content === "string" ? content : `window.YTD.${key}.part0 = ${JSON.stringify(content)}`;
+    zip.addBuffer(Buffer.from(text), name);
+  }
+  zip.end();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of zip.outputStream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
@@ -1,11 +1,111 @@
+import type { NextFunction, Request, Response } from "express";
+import type { Config } from "./config";
+import { getRequestContext } from "./context";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const levelOrder: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Credentials, and text people typed or tweeted, never reach the logs
+const SENSITIVE_KEYS = new Set([
+  "password", "passwordhash", "token", "tokenhash", "authorization", "cookie", "set-cookie",
+  "apikey", "api_key", "secret", "sessionsecret",
+  "sourcetext", "text", "full_text", "translation", "question", "argument"
+]);
+const REDACTED = "[REDACTED]";
+
+let minLevel: LogLevel = "info";
+
+export function configureLogging(settings: Config["logging"]): void {
+  minLevel = settings.level;
+}
+
+/**
+ * Masks credentials that end up inside strings: API keys in query strings and bearer tokens
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(/([?&](?:key|api_key|token|access_token)=)[^&\s"']+/gi, `$1${REDACTED}`)
+    .replace(/(Bearer\s+)[^\s"',]+/gi, `$1${REDACTED}`);
+}
+
+/**
+ * Copies a value with sensitive fields masked, at any depth
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value === null || typeof value !== "object" || depth > 6) return value;
+  if (value instanceof Error) return redactText(value.stack ?? value.message);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+    [key, SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(field, depth + 1)]
+  ));
+}
+
+/**
+ * Writes one JSON log line, tagged with the current request ID.
+ * Lines below the configured level (logging.level, default info) are dropped.
+ */
+export function writeLog(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (levelOrder[level] < levelOrder[minLevel]) return;
+
+  const requestId = getRequestContext()?.requestId;
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    ...(redact(fields) as LogFields),
+    msg: redactText(message),
+    ...(requestId ? { requestId } : {})
+  });
+  if (level === "error" || level === "warn") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => writeLog("debug", message, fields),
+  info: (message: string, fields?: LogFields) => writeLog("info", message, fields),
+  warn: (message: string, fields?: LogFields) => writeLog("warn", message, fields),
+  error: (message: string, fields?: LogFields) => writeLog("error", message, fields)
+};
 
 /**
  * Simple utility for consistent logging throughout the application
  * @param message The message to log
  * @param source Optional source identifier
+ * @param level Defaults to info
+ */
+export function log(message: string, source?: string, level: LogLevel = "info"): void {
+  writeLog(level, message, source ? { source } : {});
+}
+
+/**
+ * Express middleware that logs one line per API request once the response is sent.
+ * Bodies aren't logged: they carry tweets and text people typed.
  */
-export function log(message: string, source?: string): void {
-  const timestamp = new Date().toLocaleTimeString();
-  const sourcePrefix = source ? `[${source}] ` : '';
-  console.log(`${timestamp} ${sourcePrefix}${message}`);
+export function requestLogger() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = Date.now();
+    res.on("finish", () => {
+      if (!req.originalUrl.startsWith("/api")) return;
+      const durationMs = Date.now() - start;
+      const path = req.originalUrl.split("?")[0];
+      const level: LogLevel = res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "info";
+      writeLog(level, `${req.method} ${path} ${res.statusCode} in ${durationMs}ms`, {
+        source: "http",
+        method: req.method,
+        path,
+        status: res.statusCode,
+        durationMs,
+        accountId: req.user?.id,
+        responseBytes: Number(res.get("content-length") ?? 0) || undefined
+      });
+    });
+    next();
+  };
 }
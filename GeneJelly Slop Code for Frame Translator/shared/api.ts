@@ -0,0 +1,159 @@
+import { z } from "zod";
+import { insertUserSchema } from "./schema";
+
+// Request schemas for every API route, shared so clients can validate before sending.
+// Path parameters and query strings arrive as strings, so their schemas coerce.
+
+/**
+ * Strips whitespace and leading @ from a Twitter handle
+ */
+export function cleanHandle(handle: string): string {
+  return handle.trim().replace(/^@+/, "");
+}
+
+export const handleSchema = z.string().trim().min(1).transform(cleanHandle);
+
+/**
+ * The stable shape of every error response
+ */
+export const errorResponseSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+// Path parameters
+
+export const idParamsSchema = z.object({
+  id: z.coerce.number().int().min(1),
+});
+
+export const tweetParamsSchema = z.object({
+  id: z.string().regex(/^\d+$/, "Tweet ids are numeric"),
+});
+
+export const handleParamsSchema = z.object({
+  handle: handleSchema,
+});
+
+export const handlePairParamsSchema = z.object({
+  handleA: handleSchema,
+  handleB: handleSchema,
+});
+
+// Query strings
+
+// Routes that can run as a background job do so when called with ?async=true
+export const asyncQuerySchema = z.object({
+  async: z.enum(["true", "false", "1", "0"]).optional().transform(value => value === "true" || value === "1"),
+});
+
+const limitQuery = (max: number, fallback: number) => z.object({
+  limit: z.coerce.number().int().min(1).max(max).default(fallback),
+});
+
+export const threadQuerySchema = limitQuery(1000, 200);
+export const conversationQuerySchema = limitQuery(1000, 100);
+
+// Time window and size of a relationship graph
+export const graphQuerySchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  minWeight: z.coerce.number().min(0).optional(),
+  format: z.enum(["json", "graphml"]).optional(),
+});
+
+export const translationFilterSchema = z.object({
+  sourceHandle: handleSchema.optional(),
+  targetHandle: handleSchema.optional(),
+  frame: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+export const comparisonFilterSchema = z.object({
+  handle: handleSchema.optional(),
+  search: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+export const archiveLikesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Defaults to the previous version against the latest
+export const insightDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// Request bodies
+
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3).max(64).regex(/^[\w.-]+$/, "Use letters, numbers, dots, dashes and underscores"),
+  password: z.string().min(8).max(200),
+});
+
+export const tokenRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// Handles are stored lowercase so "Alice" and "@alice" are the same user
+export const createUserRequestSchema = insertUserSchema.extend({
+  twitterHandle: handleSchema.transform(handle => handle.toLowerCase()),
+});
+
+export const translateRequestSchema = z.object({
+  sourceText: z.string().trim().min(1).max(5000),
+  targetHandle: handleSchema,
+});
+
+// Person-to-person translation of one of the source's tweets or of free text
+export const translateBetweenRequestSchema = z.object({
+  sourceHandle: handleSchema,
+  targetHandle: handleSchema,
+  tweetId: z.string().regex(/^\d+$/, "Tweet ids are numeric").optional(),
+  text: z.string().trim().min(1).max(5000).optional(),
+}).refine(body => !!body.tweetId !== !!body.text, {
+  message: "Provide exactly one of tweetId or text",
+});
+
+export const comparisonRequestSchema = z.object({
+  userAId: z.number().int(),
+  userBId: z.number().int(),
+  // The argument or topic to compare the two on
+  argument: z.string().trim().min(1).max(1000).optional(),
+});
+
+export const MIN_ROOM_SIZE = 3;
+export const MAX_ROOM_SIZE = 10;
+
+// Members (by handle) and the question for a room analysis
+export const roomRequestSchema = z.object({
+  handles: z.array(handleSchema)
+    .transform(handles => Array.from(new Map(handles.map(h => [h.toLowerCase(), h])).values()))
+    .refine(handles => handles.length >= MIN_ROOM_SIZE && handles.length <= MAX_ROOM_SIZE, {
+      message: `A room needs between ${MIN_ROOM_SIZE} and ${MAX_ROOM_SIZE} distinct members`,
+    }),
+  question: z.string().trim().min(1).max(1000),
+});
+
+export const jobTypes = ["insight.create", "insight.refresh", "comparison.create", "room.create"] as const;
+export type JobType = typeof jobTypes[number];
+
+// The payload is checked against the job type's own schema when it is enqueued
+export const jobRequestSchema = z.object({
+  type: z.enum(jobTypes),
+  payload: z.record(z.unknown()).default({}),
+});
+
+export type TranslateRequest = z.infer<typeof translateRequestSchema>;
+export type TranslateBetweenRequest = z.infer<typeof translateBetweenRequestSchema>;
+export type ComparisonRequestBody = z.infer<typeof comparisonRequestSchema>;
+export type RoomRequest = z.infer<typeof roomRequestSchema>;
+export type JobRequest = z.infer<typeof jobRequestSchema>;
@@ -1,7 +1,26 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, index, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// People who sign in to use the app, as opposed to `users`, the Twitter accounts being analysed
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Bearer tokens for scripts; only a hash of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").references(() => accounts.id).notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull(),
+});
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
@@ -16,25 +35,337 @@ export const insights = pgTable("insights", {
   concepts: jsonb("concepts").$type<string[]>().notNull(),
   subcultures: jsonb("subcultures").$type<string[]>().notNull(),
   writingStyle: text("writing_style").notNull(),
+  // Tweets that went into the prompt this insight was generated from
+  sourceTweetIds: jsonb("source_tweet_ids").$type<string[]>().notNull().default([]),
+  version: integer("version").notNull().default(1),
   lastUpdated: timestamp("last_updated").notNull(),
 });
 
+// Snapshot of every generated insight, so profile changes can be diffed over time
+export const insightVersions = pgTable("insight_versions", {
+  id: serial("id").primaryKey(),
+  insightId: integer("insight_id").references(() => insights.id).notNull(),
+  userId: integer("user_id").references(() => users.id),
+  version: integer("version").notNull(),
+  description: text("description").notNull(),
+  lifeExperiences: jsonb("life_experiences").$type<string[]>().notNull(),
+  concepts: jsonb("concepts").$type<string[]>().notNull(),
+  subcultures: jsonb("subcultures").$type<string[]>().notNull(),
+  writingStyle: text("writing_style").notNull(),
+  sourceTweetIds: jsonb("source_tweet_ids").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+/**
+ * Where two people stand on an argument or topic, as produced by a comparison
+ */
+export const comparisonResultSchema = z.object({
+  sharedValues: z.array(z.string().min(1)),
+  disagreements: z.array(z.object({
+    topic: z.string().min(1),
+    positionA: z.string().min(1),
+    positionB: z.string().min(1),
+  })),
+  vocabularyDifferences: z.array(z.object({
+    concept: z.string().min(1),
+    termA: z.string().min(1),
+    termB: z.string().min(1),
+  })),
+  bridgingStatement: z.string().min(1),
+  suggestedNextStep: z.string().min(1),
+});
+
+export type ComparisonResult = z.infer<typeof comparisonResultSchema>;
+
 export const comparisons = pgTable("comparisons", {
   id: serial("id").primaryKey(),
   userAId: integer("user_a_id").references(() => users.id),
   userBId: integer("user_b_id").references(() => users.id),
   argumentText: text("argument_text").notNull(),
+  // Readable rendering of the result; comparisons made before results were structured only have this
   explanation: text("explanation").notNull(),
+  result: jsonb("result").$type<ComparisonResult>(),
+  ownerId: integer("owner_id").references(() => accounts.id),
   createdAt: timestamp("created_at").notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users);
-export const insertInsightSchema = createInsertSchema(insights);
-export const insertComparisonSchema = createInsertSchema(comparisons);
+/**
+ * Where a group stands on a question, as produced by a room analysis. Members are referred to by handle.
+ */
+export const roomResultSchema = z.object({
+  clusters: z.array(z.object({
+    frame: z.string().min(1),
+    description: z.string().min(1),
+    members: z.array(z.string().min(1)).min(1),
+  })),
+  consensus: z.array(z.string().min(1)),
+  splits: z.array(z.object({
+    topic: z.string().min(1),
+    sides: z.array(z.object({
+      position: z.string().min(1),
+      members: z.array(z.string().min(1)),
+    })).min(2),
+  })),
+  introductions: z.array(z.object({
+    handles: z.tuple([z.string().min(1), z.string().min(1)]),
+    reason: z.string().min(1),
+  })),
+  summary: z.string().min(1),
+});
+
+export type RoomResult = z.infer<typeof roomResultSchema>;
+
+// A group analysis of several users with insights, answering one question
+export const rooms = pgTable("rooms", {
+  id: serial("id").primaryKey(),
+  question: text("question").notNull(),
+  memberIds: jsonb("member_ids").$type<number[]>().notNull(),
+  // Handles as they were when the analysis ran, in the same order as memberIds
+  memberHandles: jsonb("member_handles").$type<string[]>().notNull(),
+  result: jsonb("result").$type<RoomResult>().notNull(),
+  ownerId: integer("owner_id").references(() => accounts.id),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+/**
+ * A concept from the source person's frame and its closest equivalent in the target's
+ */
+export const glossaryEntrySchema = z.object({
+  sourceTerm: z.string().min(1),
+  targetTerm: z.string().min(1),
+  note: z.string(),
+});
 
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
+export const translations = pgTable("translations", {
+  id: serial("id").primaryKey(),
+  sourceText: text("source_text").notNull(),
+  // Set for person-to-person translations
+  sourceHandle: text("source_handle"),
+  sourceTweetId: text("source_tweet_id"),
+  targetHandle: text("target_handle").notNull(),
+  sourceFrame: text("source_frame").notNull(),
+  targetFrame: text("target_frame").notNull(),
+  translation: text("translation").notNull(),
+  insightId: integer("insight_id").references(() => insights.id),
+  exemplarTweetIds: jsonb("exemplar_tweet_ids").$type<string[]>().notNull().default([]),
+  glossary: jsonb("glossary").$type<GlossaryEntry[]>().notNull().default([]),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  ownerId: integer("owner_id").references(() => accounts.id),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const jobStatuses = ["queued", "running", "succeeded", "failed"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+// Background work (insight generation, comparisons) processed by the in-process job worker
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(),
+  // Jobs with the same key are not run concurrently; a second enqueue returns the active job
+  dedupeKey: text("dedupe_key"),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  result: jsonb("result"),
+  error: text("error"),
+  // Account that enqueued the job; results it creates belong to them. Null for shared jobs.
+  ownerId: integer("owner_id").references(() => accounts.id),
+  // Account charged for the job's LLM calls, set even for shared jobs
+  enqueuedBy: integer("enqueued_by").references(() => accounts.id),
+  runAt: timestamp("run_at").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+});
+
+// Tokens and estimated cost of each LLM call (cache hits aren't recorded), for daily quotas
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  // Null for work not started by a signed-in account, e.g. the archive import command
+  accountId: integer("account_id").references(() => accounts.id),
+  task: text("task").notNull(),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull(),
+  outputTokens: integer("output_tokens").notNull(),
+  costUsd: doublePrecision("cost_usd").notNull(),
+  // Streams don't report usage, so their tokens are estimated from the text
+  estimated: boolean("estimated").notNull().default(false),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+// Storage-backed cache for archive and LLM responses (used when CACHE_BACKEND=storage)
+export const cacheEntries = pgTable("cache_entries", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [index("cache_entries_expires_at_idx").on(table.expiresAt)]);
+
+// A Twitter/X data export imported locally, served alongside (or instead of) the hosted Community Archive
+export const communityArchives = pgTable("community_archives", {
+  id: serial("id").primaryKey(),
+  // Twitter's id for the account. Each importer keeps one copy of an account's archive:
+  // importing it again replaces their copy, not anyone else's
+  accountId: text("account_id").notNull(),
+  username: text("username").notNull(),
+  displayName: text("display_name"),
+  bio: text("bio"),
+  website: text("website"),
+  location: text("location"),
+  avatarMediaUrl: text("avatar_media_url"),
+  accountCreatedAt: timestamp("account_created_at"),
+  tweetCount: integer("tweet_count").notNull(),
+  likeCount: integer("like_count").notNull(),
+  // Null for archives imported from the command line, which every account can read;
+  // an archive imported through the API is only read on behalf of the account that imported it
+  importedBy: integer("imported_by").references(() => accounts.id),
+  importedAt: timestamp("imported_at").notNull(),
+}, (table) => [unique("community_archives_account_importer_unique").on(table.accountId, table.importedBy).nullsNotDistinct()]);
+
+export const archiveTweets = pgTable("archive_tweets", {
+  id: serial("id").primaryKey(),
+  archiveId: integer("archive_id").references(() => communityArchives.id, { onDelete: "cascade" }).notNull(),
+  tweetId: text("tweet_id").notNull(),
+  fullText: text("full_text").notNull(),
+  favoriteCount: integer("favorite_count").notNull(),
+  retweetCount: integer("retweet_count").notNull(),
+  replyToTweetId: text("reply_to_tweet_id"),
+  replyToUserId: text("reply_to_user_id"),
+  replyToUsername: text("reply_to_username"),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  index("archive_tweets_archive_id_idx").on(table.archiveId),
+  index("archive_tweets_reply_to_tweet_id_idx").on(table.replyToTweetId),
+  index("archive_tweets_reply_to_user_id_idx").on(table.replyToUserId),
+]);
+
+// Tweets the archive's owner liked; exports only include their id, text and link
+export const archiveLikes = pgTable("archive_likes", {
+  id: serial("id").primaryKey(),
+  archiveId: integer("archive_id").references(() => communityArchives.id, { onDelete: "cascade" }).notNull(),
+  tweetId: text("tweet_id").notNull(),
+  fullText: text("full_text"),
+  expandedUrl: text("expanded_url"),
+}, (table) => [index("archive_likes_archive_id_idx").on(table.archiveId)]);
+
+// Ids are assigned by storage, never taken from the caller
+export const insertAccountSchema = createInsertSchema(accounts).omit({ id: true });
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({ id: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+export const insertInsightSchema = createInsertSchema(insights, {
+  lifeExperiences: z.array(z.string()),
+  concepts: z.array(z.string()),
+  subcultures: z.array(z.string()),
+  sourceTweetIds: z.array(z.string()).optional(),
+}).omit({ id: true });
+export const insertInsightVersionSchema = createInsertSchema(insightVersions, {
+  lifeExperiences: z.array(z.string()),
+  concepts: z.array(z.string()),
+  subcultures: z.array(z.string()),
+  sourceTweetIds: z.array(z.string()).optional(),
+}).omit({ id: true });
+export const insertComparisonSchema = createInsertSchema(comparisons, {
+  result: comparisonResultSchema.nullable().optional(),
+}).omit({ id: true });
+export const insertRoomSchema = createInsertSchema(rooms, {
+  memberIds: z.array(z.number().int()),
+  memberHandles: z.array(z.string()),
+  result: roomResultSchema,
+}).omit({ id: true });
+export const insertJobSchema = createInsertSchema(jobs, {
+  payload: z.record(z.unknown()),
+  result: z.unknown(),
+  status: z.enum(jobStatuses).optional(),
+}).omit({ id: true });
+export const insertCacheEntrySchema = createInsertSchema(cacheEntries, {
+  value: z.unknown(),
+});
+export const insertLLMUsageSchema = createInsertSchema(llmUsage).omit({ id: true });
+export const insertCommunityArchiveSchema = createInsertSchema(communityArchives).omit({ id: true });
+export const insertArchiveTweetSchema = createInsertSchema(archiveTweets).omit({ id: true });
+export const insertArchiveLikeSchema = createInsertSchema(archiveLikes).omit({ id: true });
+export const insertTranslationSchema = createInsertSchema(translations, {
+  exemplarTweetIds: z.array(z.string()).optional(),
+  glossary: z.array(glossaryEntrySchema).optional(),
+}).omit({ id: true });
+
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Insight = typeof insights.$inferSelect;
 export type InsertInsight = z.infer<typeof insertInsightSchema>;
+export type InsightVersion = typeof insightVersions.$inferSelect;
+export type InsertInsightVersion = z.infer<typeof insertInsightVersionSchema>;
 export type Comparison = typeof comparisons.$inferSelect;
 export type InsertComparison = z.infer<typeof insertComparisonSchema>;
+export type Room = typeof rooms.$inferSelect;
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type CacheEntry = typeof cacheEntries.$inferSelect;
+export type InsertCacheEntry = z.infer<typeof insertCacheEntrySchema>;
+export type LLMUsageRecord = typeof llmUsage.$inferSelect;
+export type InsertLLMUsage = z.infer<typeof insertLLMUsageSchema>;
+export type Translation = typeof translations.$inferSelect;
+export type InsertTranslation = z.infer<typeof insertTranslationSchema>;
+export type CommunityArchive = typeof communityArchives.$inferSelect;
+export type InsertCommunityArchive = z.infer<typeof insertCommunityArchiveSchema>;
+export type ArchiveTweet = typeof archiveTweets.$inferSelect;
+export type InsertArchiveTweet = z.infer<typeof insertArchiveTweetSchema>;
+export type ArchiveLike = typeof archiveLikes.$inferSelect;
+export type InsertArchiveLike = z.infer<typeof insertArchiveLikeSchema>;
+
+export interface ComparisonFilter {
+  // Comparisons where this user is either side
+  userId?: number;
+  // Comparisons this account owns, plus unowned ones made before sign-in existed
+  ownerId?: number;
+  // Matches the argument text or anything in the structured result
+  search?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TranslationFilter {
+  // Translations this account owns, plus unowned ones made before sign-in existed
+  ownerId?: number;
+  sourceHandle?: string;
+  targetHandle?: string;
+  // Matches either the source or the target frame
+  frame?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ArchiveTweetQuery {
+  // Tweets from any of these imported archives
+  archiveIds: number[];
+  tweetIds?: string[];
+  replyToTweetId?: string;
+  replyToUserId?: string;
+  // Posted at or after `since` and before `until`
+  since?: Date;
+  until?: Date;
+  excludeReplies?: boolean;
+  // Leaves out tweets starting "RT @", the way exports record retweets
+  excludeRetweets?: boolean;
+  minLikes?: number;
+  // Newest first (the default), most liked first (newest first among equals) or oldest first
+  order?: "recent" | "popular" | "oldest";
+  limit?: number;
+  offset?: number;
+}